@@ -1,12 +1,17 @@
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { CodeEditor } from '@/components/CodeEditor';
 import { DiagramViewWithProvider } from '@/components/DiagramView';
 import { ThemeToggle } from '@/components/theme-toggle';
-import { parseSQLToDiagram, parseSimpleSQL } from '@/lib/sqlParser';
+import { LintSettings } from '@/components/LintSettings';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { detectDialect, parseSQLToDiagram, parseSimpleSQL, SQL_DIALECTS } from '@/lib/sqlParser';
+import { DEFAULT_LINT_CONFIG, lintSchema } from '@/lib/schemaLint';
 import { useIsMobile } from '@/hooks/use-mobile';
-import type { SQLDiagram, SQLError } from '@/lib/sqlParser';
+import type { SourceRange, SQLDialect, SQLDiagram, SQLError, SQLParseResult } from '@/lib/sqlParser';
+import type { LintConfig } from '@/lib/schemaLint';
 
 const defaultSQL = `-- PostgreSQL Database Schema Example
 CREATE TABLE users (
@@ -48,57 +53,127 @@ CREATE TABLE comments (
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );`;
 
+// Dialects picked by hand for imported files, by file name
+const DIALECT_OVERRIDES_KEY = 'sqlgram-dialect-overrides';
+
+function loadDialectOverride(documentName: string): SQLDialect | undefined {
+  try {
+    const overrides = JSON.parse(localStorage.getItem(DIALECT_OVERRIDES_KEY) || '{}');
+    const dialect = overrides[documentName];
+    return dialect in SQL_DIALECTS ? dialect : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function saveDialectOverride(documentName: string, dialect: SQLDialect) {
+  try {
+    const overrides = JSON.parse(localStorage.getItem(DIALECT_OVERRIDES_KEY) || '{}');
+    localStorage.setItem(DIALECT_OVERRIDES_KEY, JSON.stringify({ ...overrides, [documentName]: dialect }));
+  } catch {
+    // Storage may be full or disabled, the choice then only lasts for this session
+  }
+}
+
+// Lint rule switches and severities, shared by every document
+const LINT_CONFIG_KEY = 'sqlgram-lint-rules';
+
+// Rules missing from the saved settings, like ones added since, keep their defaults
+function loadLintConfig(): LintConfig {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LINT_CONFIG_KEY) || '{}');
+    return Object.fromEntries(
+      Object.entries(DEFAULT_LINT_CONFIG).map(([rule, setting]) => [rule, { ...setting, ...saved[rule] }])
+    ) as LintConfig;
+  } catch {
+    return DEFAULT_LINT_CONFIG;
+  }
+}
+
+function saveLintConfig(config: LintConfig) {
+  try {
+    localStorage.setItem(LINT_CONFIG_KEY, JSON.stringify(config));
+  } catch {
+    // Storage may be full or disabled, the settings then only last for this session
+  }
+}
+
 function App() {
   const [sqlCode, setSqlCode] = useState(defaultSQL);
-  const [diagram, setDiagram] = useState<SQLDiagram>({ tables: [], relationships: [] });
+  const [dialect, setDialect] = useState<SQLDialect>('postgresql');
+  // Name of the imported file, null for SQL that was typed or pasted
+  const [documentName, setDocumentName] = useState<string | null>(null);
+  // Whether the dialect was guessed from the SQL rather than picked by the user
+  const [isDialectDetected, setIsDialectDetected] = useState(false);
+  const [diagram, setDiagram] = useState<SQLDiagram>({ tables: [], relationships: [], enums: [], views: [], domains: [], compositeTypes: [] });
+  // The SQL the diagram was parsed from, which its source ranges point into
+  const [diagramSQL, setDiagramSQL] = useState('');
   const [sqlErrors, setSqlErrors] = useState<SQLError[]>([]);
   const [isValidSQL, setIsValidSQL] = useState(true);
+  const hasValidDiagram = useRef(false);
+  // A kept diagram's source ranges point into older SQL, so navigation is off until it's replaced
+  const [isDiagramStale, setIsDiagramStale] = useState(false);
+  const [cursorOffset, setCursorOffset] = useState<number | null>(null);
+  const [editorSelection, setEditorSelection] = useState<SourceRange | null>(null);
+  const [lintConfig, setLintConfig] = useState<LintConfig>(loadLintConfig);
   const isMobile = useIsMobile();
+  const errorCount = sqlErrors.filter((error) => error.severity === 'error').length;
+
+  // Lint problems of a stale diagram would point at the wrong lines, so they wait for the next valid parse
+  const editorErrors = useMemo(
+    () => isDiagramStale ? sqlErrors : [...sqlErrors, ...lintSchema(diagram, diagramSQL, dialect, lintConfig)],
+    [sqlErrors, isDiagramStale, diagram, diagramSQL, dialect, lintConfig]
+  );
+
+  // Only a valid parse replaces a valid diagram, so it stays on screen (marked stale) while the SQL has errors
+  const applyParseResult = useCallback((result: SQLParseResult, sql: string) => {
+    if (result.isValid || !hasValidDiagram.current) {
+      setDiagram(result.diagram);
+      setDiagramSQL(sql);
+    }
+    setIsDiagramStale(!result.isValid && hasValidDiagram.current);
+    hasValidDiagram.current ||= result.isValid;
+    setSqlErrors(result.errors);
+    setIsValidSQL(result.isValid);
+  }, []);
 
   // Parse SQL and update diagram
   const updateDiagram = useMemo(() => {
     return () => {
       if (!sqlCode.trim()) {
-        setDiagram({ tables: [], relationships: [] });
+        setDiagram({ tables: [], relationships: [], enums: [], views: [], domains: [], compositeTypes: [] });
         setSqlErrors([]);
         setIsValidSQL(true);
+        setIsDiagramStale(false);
         return;
       }
 
       try {
         // Try advanced parser first
-        const parseResult = parseSQLToDiagram(sqlCode);
+        const parseResult = parseSQLToDiagram(sqlCode, dialect);
 
         // If no tables found and SQL is valid, try simple regex parser
         if (parseResult.diagram.tables.length === 0 && parseResult.isValid) {
           const simpleParseResult = parseSimpleSQL(sqlCode);
           // Only use simple parser result if it found tables or if main parser had no errors
           if (simpleParseResult.diagram.tables.length > 0) {
-            setDiagram(simpleParseResult.diagram);
-            setSqlErrors(simpleParseResult.errors);
-            setIsValidSQL(simpleParseResult.isValid);
+            applyParseResult(simpleParseResult, sqlCode);
           } else {
             // Use main parser result even if no tables found, as long as SQL is valid
-            setDiagram(parseResult.diagram);
-            setSqlErrors(parseResult.errors);
-            setIsValidSQL(parseResult.isValid);
+            applyParseResult(parseResult, sqlCode);
           }
         } else {
-          setDiagram(parseResult.diagram);
-          setSqlErrors(parseResult.errors);
-          setIsValidSQL(parseResult.isValid);
+          applyParseResult(parseResult, sqlCode);
         }
       } catch (error) {
         console.error('Error parsing SQL:', error);
         // Fallback to simple parser
         try {
           const simpleParseResult = parseSimpleSQL(sqlCode);
-          setDiagram(simpleParseResult.diagram);
-          setSqlErrors(simpleParseResult.errors);
-          setIsValidSQL(simpleParseResult.isValid);
+          applyParseResult(simpleParseResult, sqlCode);
         } catch (simpleError) {
           console.error('Error with simple parser:', simpleError);
-          setDiagram({ tables: [], relationships: [] });
+          setDiagram({ tables: [], relationships: [], enums: [], views: [], domains: [], compositeTypes: [] });
           setSqlErrors([{
             message: 'Critical parsing error',
             line: 1,
@@ -109,7 +184,37 @@ function App() {
         }
       }
     };
-  }, [sqlCode]);
+  }, [sqlCode, dialect, applyParseResult]);
+
+  // A new script keeps the dialect picked for it before, or gets one guessed from its contents
+  const openDocument = useCallback((content: string, name: string | null) => {
+    const override = name ? loadDialectOverride(name) : undefined;
+    const detected = override ? null : detectDialect(content);
+    const nextDialect = override ?? detected;
+
+    setDocumentName(name);
+    // A diagram kept from the previous script says nothing about this one, so its first parse replaces it even with errors
+    hasValidDiagram.current = false;
+    if (nextDialect) setDialect(nextDialect);
+    setIsDialectDetected(!!detected);
+  }, []);
+
+  const handleImport = useCallback((content: string, fileName: string) => openDocument(content, fileName), [openDocument]);
+  const handlePasteDocument = useCallback((content: string) => openDocument(content, null), [openDocument]);
+
+  const handleLintConfigChange = (config: LintConfig) => {
+    setLintConfig(config);
+    saveLintConfig(config);
+  };
+
+  const handleDialectChange = (value: string) => {
+    setDialect(value as SQLDialect);
+    setIsDialectDetected(false);
+    if (documentName) saveDialectOverride(documentName, value as SQLDialect);
+  };
+
+  // Copy the range so clicking the same table again re-selects it after the cursor moved
+  const selectRange = useCallback((range: SourceRange) => setEditorSelection([...range]), []);
 
   // Auto-update diagram when SQL changes
   useEffect(() => {
@@ -132,10 +237,36 @@ function App() {
           <div>
             <h1 className="text-xl sm:text-2xl font-bold">sqlgram</h1>
             <p className="text-xs sm:text-sm text-muted-foreground">
-              PostgreSQL Schema Visualizer
+              {SQL_DIALECTS[dialect]} Schema Visualizer
             </p>
           </div>
           <div className="flex items-center gap-4">
+            {isDialectDetected && (
+              <Badge
+                variant="secondary"
+                className="hidden sm:inline-flex"
+                title="Guessed from the SQL, pick a dialect to override it"
+              >
+                Detected
+              </Badge>
+            )}
+            <Select value={dialect} onValueChange={handleDialectChange}>
+              <SelectTrigger
+                size="sm"
+                className="w-[120px] sm:w-[140px]"
+                aria-label="SQL dialect"
+                title={documentName ? `Dialect of ${documentName}` : undefined}
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SQL_DIALECTS) as SQLDialect[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {SQL_DIALECTS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <div className="text-xs sm:text-sm text-muted-foreground text-right">
               <div className="hidden sm:block">
                 {diagram.tables.length} table{diagram.tables.length !== 1 ? 's' : ''} • {diagram.relationships.length} relationship{diagram.relationships.length !== 1 ? 's' : ''}
@@ -144,6 +275,7 @@ function App() {
                 {diagram.tables.length}T • {diagram.relationships.length}R
               </div>
             </div>
+            <LintSettings config={lintConfig} onChange={handleLintConfigChange} />
             <ThemeToggle />
           </div>
         </div>
@@ -162,15 +294,25 @@ function App() {
                   value={sqlCode}
                   onChange={setSqlCode}
                   onExecute={updateDiagram}
-                  errors={sqlErrors}
+                  errors={editorErrors}
                   isValid={isValidSQL}
+                  selection={editorSelection}
+                  onCursorChange={setCursorOffset}
+                  onImport={handleImport}
+                  onPasteDocument={handlePasteDocument}
                 />
               </div>
             </TabsContent>
             <TabsContent value="diagram" className="flex-1">
               <div className="h-full border rounded-lg bg-card">
                 <div className="h-full">
-                  <DiagramViewWithProvider diagram={diagram} isValidSQL={isValidSQL} />
+                  <DiagramViewWithProvider
+                    diagram={diagram}
+                    isValidSQL={isValidSQL}
+                    errorCount={errorCount}
+                    cursorOffset={isDiagramStale ? null : cursorOffset}
+                    onSelectRange={isDiagramStale ? undefined : selectRange}
+                  />
                 </div>
               </div>
             </TabsContent>
@@ -183,8 +325,12 @@ function App() {
                   value={sqlCode}
                   onChange={setSqlCode}
                   onExecute={updateDiagram}
-                  errors={sqlErrors}
+                  errors={editorErrors}
                   isValid={isValidSQL}
+                  selection={editorSelection}
+                  onCursorChange={setCursorOffset}
+                  onImport={handleImport}
+                  onPasteDocument={handlePasteDocument}
                 />
               </div>
             </ResizablePanel>
@@ -195,7 +341,13 @@ function App() {
               <div className="h-full p-4">
                 <div className="h-full border rounded-lg bg-card">
                   <div className="h-full">
-                    <DiagramViewWithProvider diagram={diagram} isValidSQL={isValidSQL} />
+                    <DiagramViewWithProvider
+                      diagram={diagram}
+                      isValidSQL={isValidSQL}
+                      errorCount={errorCount}
+                      cursorOffset={isDiagramStale ? null : cursorOffset}
+                      onSelectRange={isDiagramStale ? undefined : selectRange}
+                    />
                   </div>
                 </div>
               </div>
@@ -1,11 +1,11 @@
 import React, { useRef, useEffect, useCallback } from 'react';
-import Editor, { type Monaco } from '@monaco-editor/react';
+import Editor, { type Monaco, type OnMount } from '@monaco-editor/react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Play, Download, Upload, AlertCircle, CheckCircle } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useTheme } from '@/hooks/use-theme';
-import type { SQLError } from '@/lib/sqlParser';
+import type { SourceRange, SQLError } from '@/lib/sqlParser';
 
 interface CodeEditorProps {
   value: string;
@@ -13,8 +13,18 @@ interface CodeEditorProps {
   onExecute?: () => void;
   errors?: SQLError[];
   isValid?: boolean;
+  // Range to select and scroll into view, e.g. a table clicked in the diagram
+  selection?: SourceRange | null;
+  // Called with the cursor offset whenever the user moves the cursor
+  onCursorChange?: (offset: number) => void;
+  // Called after a file is imported, with its contents and name
+  onImport?: (content: string, fileName: string) => void;
+  // Called when a paste replaces the whole script, e.g. into an empty editor
+  onPasteDocument?: (content: string) => void;
 }
 
+type EditorInstance = Parameters<OnMount>[0];
+
 const defaultSQL = `-- PostgreSQL Database Schema Example
 CREATE TABLE users (
     id SERIAL PRIMARY KEY,
@@ -60,11 +70,24 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
   onChange,
   onExecute,
   errors = [],
-  isValid = true
+  isValid = true,
+  selection,
+  onCursorChange,
+  onImport,
+  onPasteDocument
 }) => {
-  const editorRef = useRef<unknown>(null);
+  const editorRef = useRef<EditorInstance | null>(null);
   const monacoRef = useRef<Monaco | null>(null);
+  const onCursorChangeRef = useRef(onCursorChange);
+  const onPasteDocumentRef = useRef(onPasteDocument);
+  const errorsRef = useRef(errors);
+  // Model version the errors were reported for, which the offsets of their fixes point into
+  const errorsVersionRef = useRef<number | undefined>(undefined);
   const { actualTheme } = useTheme();
+  // Lint rules can report errors too, but only parser errors make the script invalid
+  const syntaxErrors = errors.filter(error => error.severity === 'error' && !error.code);
+  const errorCount = errors.filter(error => error.severity === 'error').length;
+  const warningCount = errors.filter(error => error.severity === 'warning').length;
 
   const handleEditorChange = (newValue: string | undefined) => {
     onChange(newValue || '');
@@ -78,11 +101,16 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
     if (!model) return;
 
     // Convert SQLError[] to Monaco markers
+    const { MarkerSeverity } = monacoRef.current;
+    const severities = {
+      error: MarkerSeverity.Error,
+      warning: MarkerSeverity.Warning,
+      info: MarkerSeverity.Info
+    };
     const markers = errors.map(error => ({
-      severity: error.severity === 'error'
-        ? monacoRef.current!.MarkerSeverity.Error
-        : monacoRef.current!.MarkerSeverity.Warning,
+      severity: severities[error.severity],
       message: error.message,
+      code: error.code,
       startLineNumber: error.line,
       startColumn: error.column,
       endLineNumber: error.endLine || error.line,
@@ -91,12 +119,62 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     monacoRef.current.editor.setModelMarkers(model as any, 'sql-parser', markers);
+    errorsVersionRef.current = editorRef.current.getModel()?.getVersionId();
   }, [errors]);
 
-  const handleEditorDidMount = (editor: unknown, monaco: Monaco) => {
+  const handleEditorDidMount: OnMount = (editor, monaco) => {
     editorRef.current = editor;
     monacoRef.current = monaco;
     updateMarkers();
+
+    // Selections made through the API (like revealing a diagram click) aren't reported back
+    editor.onDidChangeCursorPosition((event) => {
+      const model = editor.getModel();
+      if (event.source === 'api' || !model) return;
+      onCursorChangeRef.current?.(model.getOffsetAt(event.position));
+    });
+
+    editor.onDidPaste((event) => {
+      const model = editor.getModel();
+      if (!model || !monaco.Range.equalsRange(event.range, model.getFullModelRange())) return;
+      onPasteDocumentRef.current?.(model.getValue());
+    });
+
+    // Offer the fixes of the problems under the cursor as quick fixes, applied as undoable edits
+    const codeActions = monaco.languages.registerCodeActionProvider('sql', {
+      provideCodeActions: (model, _range, context) => {
+        const actions = model !== editor.getModel() ? [] : context.markers.flatMap(marker => {
+          const error = errorsRef.current.find(candidate =>
+            candidate.message === marker.message &&
+            candidate.line === marker.startLineNumber &&
+            candidate.column === marker.startColumn
+          );
+
+          return (error?.fixes ?? []).map(fix => ({
+            title: fix.title,
+            kind: 'quickfix',
+            diagnostics: [marker],
+            edit: {
+              edits: fix.edits.map(edit => ({
+                resource: model.uri,
+                // Monaco refuses the fix when the text changed since the errors were reported
+                versionId: errorsVersionRef.current,
+                textEdit: {
+                  range: monaco.Range.fromPositions(
+                    model.getPositionAt(edit.range[0]),
+                    model.getPositionAt(edit.range[1])
+                  ),
+                  text: edit.text
+                }
+              }))
+            }
+          }));
+        });
+
+        return { actions, dispose: () => {} };
+      }
+    });
+    editor.onDidDispose(() => codeActions.dispose());
   };
 
   // Update markers when errors change
@@ -104,6 +182,32 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
     updateMarkers();
   }, [updateMarkers]);
 
+  useEffect(() => {
+    onCursorChangeRef.current = onCursorChange;
+    onPasteDocumentRef.current = onPasteDocument;
+    errorsRef.current = errors;
+  }, [onCursorChange, onPasteDocument, errors]);
+
+  // Select and reveal the requested range
+  useEffect(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (!editor || !model || !selection) return;
+
+    const start = model.getPositionAt(selection[0]);
+    const end = model.getPositionAt(selection[1]);
+    const range = {
+      startLineNumber: start.lineNumber,
+      startColumn: start.column,
+      endLineNumber: end.lineNumber,
+      endColumn: end.column
+    };
+
+    editor.setSelection(range);
+    editor.revealRangeInCenterIfOutsideViewport(range);
+    editor.focus();
+  }, [selection]);
+
   const handleLoadExample = () => {
     onChange(defaultSQL);
   };
@@ -133,6 +237,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
         reader.onload = (e) => {
           const content = e.target?.result as string;
           onChange(content);
+          onImport?.(content, file.name);
         };
         reader.readAsText(file);
       }
@@ -147,13 +252,14 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
           <div className="flex items-center gap-2">
             <CardTitle className="text-base sm:text-lg">SQL Editor</CardTitle>
             <div className="flex items-center gap-1">
-              {isValid ? (
+              {isValid && errorCount === 0 ? (
                 <CheckCircle className="w-4 h-4 text-green-500" />
               ) : (
                 <AlertCircle className="w-4 h-4 text-red-500" />
               )}
               <span className="text-xs text-muted-foreground">
-                {isValid ? 'Valid' : `${errors.length} error${errors.length !== 1 ? 's' : ''}`}
+                {isValid && errorCount === 0 ? 'Valid' : `${errorCount} error${errorCount !== 1 ? 's' : ''}`}
+                {warningCount > 0 && `, ${warningCount} warning${warningCount !== 1 ? 's' : ''}`}
               </span>
             </div>
           </div>
@@ -245,14 +351,14 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
             }}
           />
         </div>
-        {!isValid && errors.length > 0 && (
+        {!isValid && syntaxErrors.length > 0 && (
           <div className="p-3 border-b absolute bottom-4">
             <Alert>
               <AlertCircle className="h-4 w-4" />
               <AlertDescription>
-                {errors.length === 1
-                  ? `SQL Error: ${errors[0].message}`
-                  : `${errors.length} SQL errors found. Check the editor for details.`
+                {syntaxErrors.length === 1
+                  ? `SQL Error: ${syntaxErrors[0].message}`
+                  : `${syntaxErrors.length} SQL errors found. Check the editor for details.`
                 }
               </AlertDescription>
             </Alert>
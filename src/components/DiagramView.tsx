@@ -1,4 +1,4 @@
-import React, { useMemo, useCallback } from 'react';
+import React, { useMemo, useCallback, useEffect, useRef, useState } from 'react';
 import ReactFlow, {
   Controls,
   Background,
@@ -12,25 +12,187 @@ import ReactFlow, {
   MarkerType,
   PanOnScrollMode,
   BackgroundVariant,
+  useReactFlow,
+  BaseEdge,
+  EdgeLabelRenderer,
+  getSmoothStepPath,
 } from 'reactflow';
-import type { Node, Edge, Connection } from 'reactflow';
+import type { Node, Edge, EdgeProps, Connection } from 'reactflow';
 import dagre from 'dagre';
+import { ChevronDown, ChevronRight, ListTree, Waypoints } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import type { SQLDiagram, Table } from '@/lib/sqlParser';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { formatColumnType, getQualifiedName, isForeignKeyColumn, isIndexedColumn } from '@/lib/sqlParser';
+import type {
+  CompositeType,
+  DomainType,
+  EnumType,
+  Multiplicity,
+  Relationship,
+  SourceRange,
+  SQLDiagram,
+  Table,
+  TableColumn,
+  View
+} from '@/lib/sqlParser';
+import { cn } from '@/lib/utils';
 
 import 'reactflow/dist/style.css';
 
 interface TableNodeData {
   table: Table;
+  // Partitions of a partitioned table, listed in its node while they're collapsed
+  partitions?: Table[];
+  partitionsExpanded?: boolean;
+  onTogglePartitions?: () => void;
+  // Selects the definition of an index picked from the table's index list
+  onSelectRange?: (range: SourceRange) => void;
+  // Domains and composite types of the script, shown when hovering a column that uses one
+  domains?: DomainType[];
+  compositeTypes?: CompositeType[];
 }
 
 interface TableNodeProps {
   data: TableNodeData;
+  selected?: boolean;
 }
 
-const TableNode: React.FC<TableNodeProps> = ({ data }) => {
-  const { table } = data;
+// Helper function to list MySQL table options like ENGINE=InnoDB for a tooltip
+const formatTableOptions = (table: Table): string =>
+  Object.entries(table.options ?? {})
+    .map(([name, value]) => `${name}=${value}`)
+    .join(' ');
+
+// Helper function to describe the values a partition covers
+const formatPartitionBound = (bound: string): string =>
+  bound === 'DEFAULT' || !bound ? 'DEFAULT' : `FOR VALUES ${bound}`;
+
+// Helper function to explain where the values of an auto-generated column come from
+const describeAutoIncrement = (column: TableColumn): string => {
+  if (column.identity) return `Identity, generated ${column.identity.toLowerCase()}`;
+  if (column.sequence) return `Drawn from sequence ${column.sequence}`;
+  return 'Auto increment';
+};
+
+interface ColumnTypeProps {
+  column: TableColumn;
+  domains: DomainType[];
+  compositeTypes: CompositeType[];
+}
+
+// A column's type, with the whole definition of a domain or composite type shown on hover
+const ColumnType: React.FC<ColumnTypeProps> = ({ column, domains, compositeTypes }) => {
+  const domain = domains.find((d) => getQualifiedName(d.name, d.schema) === column.domain);
+  const compositeType = compositeTypes.find((c) => getQualifiedName(c.name, c.schema) === column.compositeType);
+
+  const label = (
+    <span
+      className={cn(
+        'text-xs sm:text-sm text-muted-foreground truncate max-w-[60px] sm:max-w-none',
+        !column.type && 'italic',
+        (domain || compositeType) && 'underline decoration-dotted underline-offset-2 cursor-help'
+      )}
+      title={column.affinity && `${column.affinity} affinity`}
+    >
+      {column.type ? formatColumnType(column) : column.affinity?.toLowerCase()}
+    </span>
+  );
+
+  if (!domain && !compositeType) return label;
+
+  return (
+    <HoverCard openDelay={200}>
+      <HoverCardTrigger asChild>{label}</HoverCardTrigger>
+      <HoverCardContent className="w-72 p-3" align="end">
+        <div className="flex items-center gap-1 mb-2">
+          <Badge variant="outline" className="text-[10px] px-1 py-0">{domain ? 'DOMAIN' : 'TYPE'}</Badge>
+          <span className="text-sm font-semibold truncate">{(domain ?? compositeType)?.name}</span>
+        </div>
+        {domain && (
+          <div className="space-y-0.5 text-xs font-mono text-muted-foreground break-all">
+            <div>AS {formatColumnType(domain.baseType)}</div>
+            {column.baseType && column.baseType !== formatColumnType(domain.baseType) && (
+              <div>-- stored as {column.baseType}</div>
+            )}
+            {!domain.nullable && <div>NOT NULL</div>}
+            {domain.default && <div>DEFAULT {domain.default}</div>}
+            {domain.checks.map((check, i) => <div key={i}>CHECK ({check})</div>)}
+          </div>
+        )}
+        {compositeType && (
+          <ul className="space-y-0.5 text-xs">
+            {compositeType.attributes.map((attribute) => (
+              <li key={attribute.name} className="flex justify-between gap-2">
+                <span className="font-medium truncate">{attribute.name}</span>
+                <span className="font-mono text-muted-foreground truncate">{formatColumnType(attribute)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  );
+};
+
+// Popover listing a table's indexes, opened from the table header
+const TableIndexList: React.FC<{ table: Table; onSelectRange?: (range: SourceRange) => void }> = ({
+  table,
+  onSelectRange
+}) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="nodrag h-6 px-1.5 text-[10px] sm:text-xs text-muted-foreground"
+        title="Show indexes"
+      >
+        <ListTree className="w-3 h-3" />
+        {table.indexes.length}
+      </Button>
+    </PopoverTrigger>
+    <PopoverContent className="w-80 p-3" align="end">
+      <h4 className="text-sm font-semibold mb-2">Indexes on {table.name}</h4>
+      <ul className="space-y-2">
+        {table.indexes.map((index, i) => (
+          <li
+            key={index.name ?? i}
+            className={cn('text-xs space-y-1', onSelectRange && index.range && 'cursor-pointer hover:bg-muted rounded')}
+            onClick={() => index.range && onSelectRange?.(index.range)}
+          >
+            <div className="flex items-center gap-1">
+              <span className="font-medium truncate">{index.name ?? 'unnamed'}</span>
+              {index.unique && (
+                <Badge variant="default" className="text-[10px] px-1 py-0">UNIQUE</Badge>
+              )}
+              <Badge variant="outline" className="text-[10px] px-1 py-0">{index.method}</Badge>
+            </div>
+            <div className="font-mono text-muted-foreground break-all">
+              ({index.columns.join(', ')})
+            </div>
+            {index.where && (
+              <div className="font-mono text-muted-foreground break-all">WHERE {index.where}</div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </PopoverContent>
+  </Popover>
+);
+
+const TableNode: React.FC<TableNodeProps> = ({ data, selected }) => {
+  const {
+    table,
+    partitions = [],
+    partitionsExpanded,
+    onTogglePartitions,
+    onSelectRange,
+    domains = [],
+    compositeTypes = []
+  } = data;
 
   return (
     <div className="relative">
@@ -86,40 +248,219 @@ const TableNode: React.FC<TableNodeProps> = ({ data }) => {
         }}
       />
 
-      <Card className="min-w-[200px] sm:min-w-[250px] shadow-lg border-2">
-        <CardHeader className="pb-2 sm:pb-3">
-          <CardTitle className="text-sm sm:text-lg font-bold text-center">
-            {table.name}
-          </CardTitle>
+      <Card className={cn('min-w-[200px] sm:min-w-[250px] shadow-lg border-2', selected && 'border-primary')}>
+        <CardHeader className="pb-2 sm:pb-3 flex items-center justify-center gap-2">
+          <div className="min-w-0 text-center">
+            <CardTitle className="text-sm sm:text-lg font-bold text-center">
+              {table.name}
+            </CardTitle>
+            {table.options?.ENGINE && (
+              <Badge variant="outline" className="mt-1 text-[10px] px-1 py-0" title={formatTableOptions(table)}>
+                {table.options.ENGINE}
+              </Badge>
+            )}
+            {table.withoutRowid && (
+              <Badge variant="outline" className="mt-1 text-[10px] px-1 py-0" title="Rows are stored by primary key">
+                WITHOUT ROWID
+              </Badge>
+            )}
+            {table.partitionOf && (
+              <p
+                className="mt-0.5 text-[10px] sm:text-xs font-mono text-teal-700 dark:text-teal-300 truncate max-w-[220px]"
+                title={`Partition of ${getQualifiedName(table.partitionOf.name, table.partitionOf.schema)}`}
+              >
+                {formatPartitionBound(table.partitionOf.bound)}
+              </p>
+            )}
+            {table.partitionBy && (
+              <p className="mt-0.5 text-[10px] sm:text-xs font-mono text-muted-foreground truncate max-w-[220px]">
+                PARTITION BY {table.partitionBy}
+              </p>
+            )}
+            {table.description && (
+              <p
+                className="mt-0.5 text-[10px] sm:text-xs text-muted-foreground line-clamp-2 max-w-[220px]"
+                title={table.description}
+              >
+                {table.description}
+              </p>
+            )}
+          </div>
+          {table.indexes.length > 0 && <TableIndexList table={table} onSelectRange={onSelectRange} />}
         </CardHeader>
         <CardContent className="pt-0">
           <div className="space-y-1 sm:space-y-2">
             {table.columns.map((column, index) => (
               <div
                 key={index}
-                className="flex items-center justify-between p-1.5 sm:p-2 rounded bg-muted/30"
+                className={cn('p-1.5 sm:p-2 rounded bg-muted/30', column.inherited && 'opacity-60')}
+                title={column.description ?? (column.inherited ? 'Inherited from the parent table' : undefined)}
+                data-column={column.name}
               >
-                <div className="flex items-center space-x-1 sm:space-x-2 min-w-0 flex-1">
-                  <span className="font-medium text-xs sm:text-sm truncate">{column.name}</span>
-                  {column.primaryKey && (
-                    <Badge variant="default" className="text-[10px] sm:text-xs px-1 py-0">
-                      PK
-                    </Badge>
-                  )}
-                  {column.foreignKey && (
-                    <Badge variant="secondary" className="text-[10px] sm:text-xs px-1 py-0">
-                      FK
-                    </Badge>
-                  )}
-                </div>
-                <div className="flex items-center space-x-1 ml-2">
-                  <span className="text-xs sm:text-sm text-muted-foreground truncate max-w-[60px] sm:max-w-none">
-                    {column.type}
-                  </span>
-                  {!column.nullable && (
-                    <span className="text-xs text-red-500">*</span>
-                  )}
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-1 sm:space-x-2 min-w-0 flex-1">
+                    <span className="font-medium text-xs sm:text-sm truncate">{column.name}</span>
+                    {column.primaryKey && (
+                      <Badge variant="default" className="text-[10px] sm:text-xs px-1 py-0">
+                        PK
+                      </Badge>
+                    )}
+                    {isForeignKeyColumn(table, column.name) && (
+                      <Badge variant="secondary" className="text-[10px] sm:text-xs px-1 py-0">
+                        FK
+                      </Badge>
+                    )}
+                    {column.rowidAlias && (
+                      <Badge variant="outline" className="text-[10px] sm:text-xs px-1 py-0" title="Alias for the rowid">
+                        ROWID
+                      </Badge>
+                    )}
+                    {column.autoIncrement && (
+                      <Badge variant="outline" className="text-[10px] sm:text-xs px-1 py-0" title={describeAutoIncrement(column)}>
+                        AI
+                      </Badge>
+                    )}
+                    {column.generated && (
+                      <Badge
+                        variant="outline"
+                        className="text-[10px] sm:text-xs px-1 py-0"
+                        title={`Computed, ${column.generated.storage.toLowerCase()}`}
+                      >
+                        GEN
+                      </Badge>
+                    )}
+                    {column.unique && !column.primaryKey && (
+                      <Badge variant="outline" className="text-[10px] sm:text-xs px-1 py-0">
+                        UQ
+                      </Badge>
+                    )}
+                    {isIndexedColumn(table, column.name) && (
+                      <Badge variant="outline" className="text-[10px] sm:text-xs px-1 py-0">
+                        IDX
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-1 ml-2">
+                    <ColumnType column={column} domains={domains} compositeTypes={compositeTypes} />
+                    {!column.nullable && (
+                      <span className="text-xs text-red-500">*</span>
+                    )}
+                  </div>
                 </div>
+                {column.description && (
+                  <div className="mt-0.5 text-[10px] sm:text-xs text-muted-foreground italic truncate">
+                    {column.description}
+                  </div>
+                )}
+                {(column.default || column.generated || column.checks.length > 0) && (
+                  <div className="mt-0.5 space-y-0.5 text-[10px] sm:text-xs text-muted-foreground font-mono">
+                    {column.default && (
+                      <div className="truncate" title={column.default}>default {column.default}</div>
+                    )}
+                    {column.generated && (
+                      <div className="truncate" title={column.generated.expression}>
+                        as ({column.generated.expression}) {column.generated.storage.toLowerCase()}
+                      </div>
+                    )}
+                    {column.checks.map((check, checkIndex) => (
+                      <div key={checkIndex} className="truncate" title={check}>check {check}</div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          {partitions.length > 0 && (
+            <div className="mt-2 pt-2 border-t">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="nodrag h-6 w-full justify-between px-1.5 text-[10px] sm:text-xs text-muted-foreground"
+                onClick={onTogglePartitions}
+                title={partitionsExpanded ? 'Collapse partitions into this table' : 'Show partitions as tables'}
+              >
+                {partitions.length} partition{partitions.length !== 1 ? 's' : ''}
+                {partitionsExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+              </Button>
+              {!partitionsExpanded && (
+                <ul className="mt-1 space-y-0.5">
+                  {partitions.map((partition) => (
+                    <li key={partition.name} className="flex items-center justify-between gap-2 text-[10px] sm:text-xs">
+                      <span className="font-medium truncate">{partition.name}</span>
+                      <span
+                        className="font-mono text-muted-foreground truncate"
+                        title={formatPartitionBound(partition.partitionOf?.bound ?? '')}
+                      >
+                        {partition.partitionOf?.bound || 'DEFAULT'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+interface ViewNodeProps {
+  data: { view: View };
+  selected?: boolean;
+}
+
+// Views read like tables but only list their output columns, with a distinct dashed outline
+const ViewNode: React.FC<ViewNodeProps> = ({ data, selected }) => {
+  const { view } = data;
+
+  return (
+    <div className="relative">
+      <Handle
+        type="target"
+        position={Position.Top}
+        id="top"
+        style={{
+          background: '#8b5cf6',
+          borderColor: '#8b5cf6',
+          width: 10,
+          height: 10
+        }}
+      />
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        id="bottom"
+        style={{
+          background: '#8b5cf6',
+          borderColor: '#8b5cf6',
+          width: 10,
+          height: 10
+        }}
+      />
+
+      <Card
+        className={cn(
+          'min-w-[200px] sm:min-w-[250px] shadow-lg border-2 border-dashed border-violet-400 bg-violet-50/40 dark:bg-violet-950/20',
+          selected && 'border-violet-600'
+        )}
+      >
+        <CardHeader className="pb-2 sm:pb-3 flex flex-col items-center gap-1">
+          <Badge variant="outline" className="text-[10px] px-1 py-0 border-violet-400 text-violet-600 dark:text-violet-300">
+            {view.materialized ? 'MATERIALIZED VIEW' : 'VIEW'}
+          </Badge>
+          <CardTitle className="text-sm sm:text-lg font-bold text-center">
+            {view.name}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-0">
+          <div className="space-y-1">
+            {view.columns.map((column, index) => (
+              <div
+                key={index}
+                className="p-1.5 sm:p-2 rounded bg-muted/30 font-medium text-xs sm:text-sm truncate"
+              >
+                {column}
               </div>
             ))}
           </div>
@@ -129,26 +470,212 @@ const TableNode: React.FC<TableNodeProps> = ({ data }) => {
   );
 };
 
+interface EnumNodeProps {
+  data: { enumType: EnumType };
+  selected?: boolean;
+}
+
+// Compact node listing the values of a CREATE TYPE ... AS ENUM
+const EnumNode: React.FC<EnumNodeProps> = ({ data, selected }) => {
+  const { enumType } = data;
+
+  return (
+    <div className="relative">
+      <Handle
+        type="target"
+        position={Position.Top}
+        id="top"
+        style={{
+          background: '#64748b',
+          borderColor: '#64748b',
+          width: 8,
+          height: 8
+        }}
+      />
+
+      <Card className={cn('min-w-[140px] sm:min-w-[160px] gap-2 py-3 shadow-md border-dashed', selected && 'border-primary')}>
+        <CardHeader className="px-3 flex items-center justify-between gap-2">
+          <CardTitle className="text-xs sm:text-sm font-bold truncate">{enumType.name}</CardTitle>
+          <Badge variant="outline" className="text-[10px] px-1 py-0">
+            ENUM
+          </Badge>
+        </CardHeader>
+        <CardContent className="px-3">
+          <ul className="space-y-0.5">
+            {enumType.values.map((value) => (
+              <li key={value} className="text-xs text-muted-foreground font-mono truncate">
+                {value}
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+interface SchemaGroupNodeProps {
+  data: { schema: string };
+}
+
+// Labelled container drawn around the tables of one schema
+const SchemaGroupNode: React.FC<SchemaGroupNodeProps> = ({ data }) => (
+  <div className="h-full w-full rounded-xl border-2 border-dashed border-muted-foreground/30 bg-muted/20">
+    <div className="px-4 py-2 text-xs sm:text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+      {data.schema}
+    </div>
+  </div>
+);
+
 const nodeTypes = {
   table: TableNode,
+  view: ViewNode,
+  enum: EnumNode,
+  schemaGroup: SchemaGroupNode,
 };
 
+interface JunctionEdgeData {
+  junction: Table;
+  relationships: [Relationship, Relationship];
+}
+
+// Many-to-many edge standing in for a collapsed junction table, which is shown when hovering its label
+const JunctionEdge: React.FC<EdgeProps<JunctionEdgeData>> = ({
+  id,
+  sourceX,
+  sourceY,
+  sourcePosition,
+  targetX,
+  targetY,
+  targetPosition,
+  style,
+  markerStart,
+  markerEnd,
+  data,
+}) => {
+  const [edgePath, labelX, labelY] = getSmoothStepPath({
+    sourceX,
+    sourceY,
+    sourcePosition,
+    targetX,
+    targetY,
+    targetPosition,
+  });
+  if (!data) return null;
+
+  const { junction, relationships } = data;
+  const linkColumns = new Set(relationships.flatMap((rel) => rel.from.columns));
+  const extraColumns = junction.columns.filter((column) => !linkColumns.has(column.name));
+
+  return (
+    <>
+      <BaseEdge id={id} path={edgePath} style={style} markerStart={markerStart} markerEnd={markerEnd} />
+      <EdgeLabelRenderer>
+        <div
+          className="nodrag nopan absolute pointer-events-auto"
+          style={{ transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)` }}
+        >
+          <HoverCard openDelay={200}>
+            <HoverCardTrigger asChild>
+              <span className="rounded bg-white/90 px-1 text-xs font-bold text-indigo-500 cursor-help">
+                many to many
+              </span>
+            </HoverCardTrigger>
+            <HoverCardContent className="w-72 p-3">
+              <div className="flex items-center gap-1 mb-2">
+                <Badge variant="outline" className="text-[10px] px-1 py-0">JUNCTION</Badge>
+                <span className="text-sm font-semibold truncate">{junction.name}</span>
+              </div>
+              <div className="space-y-0.5 text-xs font-mono text-muted-foreground break-all">
+                {relationships.map((rel) => (
+                  <div key={rel.from.columns.join(',')}>
+                    {formatRelationshipColumns(rel)} → {rel.to.table}
+                  </div>
+                ))}
+              </div>
+              {extraColumns.length > 0 && (
+                <ul className="mt-2 pt-2 border-t space-y-0.5 text-xs">
+                  {extraColumns.map((column) => (
+                    <li key={column.name} className="flex justify-between gap-2">
+                      <span className="font-medium truncate">{column.name}</span>
+                      <span className="font-mono text-muted-foreground truncate">{formatColumnType(column)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </HoverCardContent>
+          </HoverCard>
+        </div>
+      </EdgeLabelRenderer>
+    </>
+  );
+};
+
+const edgeTypes = {
+  junction: JunctionEdge,
+};
+
+// Space kept around the tables inside a schema group, with room for the label on top
+const GROUP_PADDING = 40;
+const GROUP_LABEL_HEIGHT = 40;
+
 interface DiagramViewProps {
   diagram: SQLDiagram;
   isValidSQL: boolean;
+  errorCount?: number;
+  // Editor cursor position, the node defined around it gets selected and centered
+  cursorOffset?: number | null;
+  // Called with the source range of the table, column, view or enum clicked in the diagram
+  onSelectRange?: (range: SourceRange) => void;
 }
 
 const getLayoutedElements = (nodes: Node[], edges: Edge[], direction = 'TB') => {
-  const dagreGraph = new dagre.graphlib.Graph();
+  // Compound graph so dagre keeps the tables of a schema group next to each other
+  const dagreGraph = new dagre.graphlib.Graph({ compound: true });
   dagreGraph.setDefaultEdgeLabel(() => ({}));
   dagreGraph.setGraph({ rankdir: direction });
 
   const isMobile = window.innerWidth < 768;
-  const nodeWidth = isMobile ? 200 : 250;
-  const nodeHeight = isMobile ? 250 : 300;
 
-  nodes.forEach((node) => {
-    dagreGraph.setNode(node.id, { width: nodeWidth, height: nodeHeight });
+  // Enum nodes only list their values, so they're sized to fit instead of using the table size
+  const getNodeSize = (node: Node) => {
+    if (node.type === 'enum') {
+      const enumType = (node.data as EnumNodeProps['data']).enumType;
+      return {
+        width: isMobile ? 140 : 160,
+        height: 60 + enumType.values.length * 18,
+      };
+    }
+
+    if (node.type === 'view') {
+      const view = (node.data as ViewNodeProps['data']).view;
+      return {
+        width: isMobile ? 200 : 250,
+        height: 90 + view.columns.length * (isMobile ? 32 : 40),
+      };
+    }
+
+    return {
+      width: isMobile ? 200 : 250,
+      height: isMobile ? 250 : 300,
+    };
+  };
+
+  const childNodes = nodes.filter((node) => node.type !== 'schemaGroup');
+  // A group without children has no bounds to size it by
+  const groupNodes = nodes.filter((node) =>
+    node.type === 'schemaGroup' && childNodes.some((child) => child.parentNode === node.id)
+  );
+
+  groupNodes.forEach((node) => {
+    dagreGraph.setNode(node.id, {});
+  });
+
+  childNodes.forEach((node) => {
+    dagreGraph.setNode(node.id, getNodeSize(node));
+    if (node.parentNode) {
+      dagreGraph.setParent(node.id, node.parentNode);
+    }
   });
 
   edges.forEach((edge) => {
@@ -157,8 +684,9 @@ const getLayoutedElements = (nodes: Node[], edges: Edge[], direction = 'TB') =>
 
   dagre.layout(dagreGraph);
 
-  nodes.forEach((node) => {
+  childNodes.forEach((node) => {
     const nodeWithPosition = dagreGraph.node(node.id);
+    const { width: nodeWidth, height: nodeHeight } = getNodeSize(node);
     node.targetPosition = Position.Top;
     node.sourcePosition = Position.Bottom;
 
@@ -172,66 +700,410 @@ const getLayoutedElements = (nodes: Node[], edges: Edge[], direction = 'TB') =>
     return node;
   });
 
-  return { nodes, edges };
+  // Size each group around its tables, then make the table positions relative to it
+  groupNodes.forEach((group) => {
+    const children = childNodes.filter((node) => node.parentNode === group.id);
+    const minX = Math.min(...children.map((node) => node.position.x)) - GROUP_PADDING;
+    const minY = Math.min(...children.map((node) => node.position.y)) - GROUP_PADDING - GROUP_LABEL_HEIGHT;
+    const maxX = Math.max(...children.map((node) => node.position.x + getNodeSize(node).width)) + GROUP_PADDING;
+    const maxY = Math.max(...children.map((node) => node.position.y + getNodeSize(node).height)) + GROUP_PADDING;
+
+    group.position = { x: minX, y: minY };
+    group.style = { ...group.style, width: maxX - minX, height: maxY - minY };
+
+    children.forEach((node) => {
+      node.position = {
+        x: node.position.x - minX,
+        y: node.position.y - minY,
+      };
+    });
+  });
+
+  return { nodes: [...groupNodes, ...childNodes], edges };
 };
 
-// Helper function to format relationship type for display
-const formatRelationshipType = (type: string): string => {
-  switch (type) {
-    case 'one-to-one':
-      return 'One to One';
-    case 'one-to-many':
-      return 'One to Many';
-    case 'many-to-one':
-      return 'Many to One';
-    case 'many-to-many':
-      return 'Many to Many';
-    default:
-      return type;
+// Id of the node of the table a partition belongs to
+const getPartitionParentId = (table: Table): string | undefined =>
+  table.partitionOf && getQualifiedName(table.partitionOf.name, table.partitionOf.schema);
+
+// Partitions are only drawn as nodes while their parent, and its own parent for sub-partitions, is expanded
+const isPartitionCollapsed = (table: Table, tablesById: Map<string, Table>, expanded: Set<string>): boolean => {
+  const visited = new Set<Table>();
+  let current: Table | undefined = table;
+
+  while (current && !visited.has(current)) {
+    visited.add(current);
+    const parentId = getPartitionParentId(current);
+    if (!parentId || !tablesById.has(parentId)) return false;
+    if (!expanded.has(parentId)) return true;
+    current = tablesById.get(parentId);
   }
+  return false;
+};
+
+// Helper function to find the node whose definition contains an offset into the SQL text
+const findNodeIdAtOffset = (diagram: SQLDiagram, offset: number): string | undefined => {
+  const contains = (range?: SourceRange) => range !== undefined && offset >= range[0] && offset <= range[1];
+
+  const table = diagram.tables.find((t) => contains(t.range));
+  if (table) return getQualifiedName(table.name, table.schema);
+
+  const view = diagram.views.find((v) => contains(v.range));
+  if (view) return `view:${getQualifiedName(view.name, view.schema)}`;
+
+  const enumType = diagram.enums.find((e) => contains(e.range));
+  if (enumType) return `enum:${getQualifiedName(enumType.name, enumType.schema)}`;
+
+  return undefined;
+};
+
+// Helper function to list every column pair of a (possibly composite) foreign key
+const formatRelationshipColumns = (rel: Relationship): string => {
+  return rel.from.columns
+    .map((column, index) => `${column} - ${rel.to.columns[index] ?? '?'}`)
+    .join(', ');
+};
+
+// Helper function to list the non-default referential options of a foreign key
+const formatReferentialOptions = (rel: Relationship): string[] => {
+  const options: string[] = [];
+  if (rel.onDelete && rel.onDelete !== 'NO ACTION') options.push(`ON DELETE ${rel.onDelete}`);
+  if (rel.onUpdate && rel.onUpdate !== 'NO ACTION') options.push(`ON UPDATE ${rel.onUpdate}`);
+  if (rel.match && rel.match !== 'SIMPLE') options.push(`MATCH ${rel.match}`);
+  if (rel.deferrable) options.push(rel.initiallyDeferred ? 'DEFERRABLE INITIALLY DEFERRED' : 'DEFERRABLE');
+  return options;
 };
 
-export const DiagramView: React.FC<DiagramViewProps> = ({ diagram, isValidSQL }) => {
+// Cascading deletes are drawn in red and SET NULL/DEFAULT in amber so destructive paths stand out
+const getRelationshipColor = (rel: Relationship): string => {
+  if (rel.onDelete === 'CASCADE') return '#dc2626';
+  if (rel.onDelete === 'SET NULL' || rel.onDelete === 'SET DEFAULT') return '#d97706';
+  return '#64748b';
+};
+
+const MULTIPLICITY_LABELS: Record<Multiplicity, string> = {
+  'zero-or-one': '0..1',
+  'exactly-one': '1',
+  many: 'many'
+};
+
+// Helper function to format a relationship's cardinality from the referenced table's side,
+// e.g. "0..1 to many" for an optional parent with any number of children
+const formatCardinality = (rel: Relationship): string => {
+  if (rel.type === 'many-to-many') return 'many to many';
+  return `${MULTIPLICITY_LABELS[rel.toMultiplicity]} to ${MULTIPLICITY_LABELS[rel.fromMultiplicity]}`;
+};
+
+// Junction tables that only link two tables and that nothing else refers to, so they can be drawn
+// as a single many-to-many edge between those tables
+const findJunctionTables = (diagram: SQLDiagram): Map<string, JunctionEdgeData> => {
+  const referencedIds = new Set([
+    ...diagram.relationships.map((rel) => getQualifiedName(rel.to.table, rel.to.schema)),
+    ...diagram.tables.flatMap((table) => [...(table.inherits ?? []), ...(table.partitionOf ? [table.partitionOf] : [])])
+      .map((parent) => getQualifiedName(parent.name, parent.schema)),
+    ...diagram.views.flatMap((view) => view.dependencies).map((dependency) => getQualifiedName(dependency.name, dependency.schema)),
+  ]);
+
+  const junctions = new Map<string, JunctionEdgeData>();
+  diagram.tables.forEach((table) => {
+    const id = getQualifiedName(table.name, table.schema);
+    const links = diagram.relationships.filter((rel) => getQualifiedName(rel.from.table, rel.from.schema) === id);
+    // Links between a table and itself, like friendships, would collapse into a loop on that table
+    if (
+      links.length === 2 &&
+      links.every((rel) => rel.type === 'many-to-many') &&
+      getQualifiedName(links[0].to.table, links[0].to.schema) !== getQualifiedName(links[1].to.table, links[1].to.schema) &&
+      !referencedIds.has(id) &&
+      !table.inherits &&
+      !table.partitionOf
+    ) {
+      junctions.set(id, { junction: table, relationships: [links[0], links[1]] });
+    }
+  });
+  return junctions;
+};
+
+export const DiagramView: React.FC<DiagramViewProps> = ({
+  diagram,
+  isValidSQL,
+  errorCount = 0,
+  cursorOffset,
+  onSelectRange
+}) => {
+  const { getNode, getZoom, setCenter } = useReactFlow();
+  // Partitioned tables whose partitions are drawn as their own nodes, collapsed by default
+  const [expandedPartitions, setExpandedPartitions] = useState<Set<string>>(new Set());
+
+  const togglePartitions = useCallback((tableId: string) => {
+    setExpandedPartitions((expanded) => {
+      const next = new Set(expanded);
+      if (!next.delete(tableId)) next.add(tableId);
+      return next;
+    });
+  }, []);
+
+  // Junction tables can be hidden behind the many-to-many edges they stand for
+  const [collapseJunctions, setCollapseJunctions] = useState(false);
+  const junctionTables = useMemo(() => findJunctionTables(diagram), [diagram]);
+  const collapsedJunctions = useMemo(
+    () => (collapseJunctions ? junctionTables : new Map<string, JunctionEdgeData>()),
+    [collapseJunctions, junctionTables]
+  );
+
+  // Read through a ref so nodes aren't rebuilt and laid out again when the callback changes
+  const onSelectRangeRef = useRef(onSelectRange);
+  useEffect(() => {
+    onSelectRangeRef.current = onSelectRange;
+  }, [onSelectRange]);
+  const selectRange = useCallback((range: SourceRange) => onSelectRangeRef.current?.(range), []);
+
   const initialNodes: Node[] = useMemo(() => {
-    return diagram.tables.map((table, index) => ({
-      id: table.name,
-      type: 'table',
-      position: { x: index * 300, y: 0 },
-      data: { table },
+    const tablesById = new Map(diagram.tables.map((table) => [getQualifiedName(table.name, table.schema), table]));
+    const partitionsByParent = new Map<string, Table[]>();
+    diagram.tables.forEach((table) => {
+      const parentId = getPartitionParentId(table);
+      if (parentId && tablesById.has(parentId)) {
+        partitionsByParent.set(parentId, [...(partitionsByParent.get(parentId) ?? []), table]);
+      }
+    });
+
+    // Collapsed partitions and junction tables get no node
+    const visibleTables = Array.from(tablesById).filter(([id, table]) =>
+      !isPartitionCollapsed(table, tablesById, expandedPartitions) && !collapsedJunctions.has(id)
+    );
+
+    // Only group by schema when there's more than one, otherwise the container is just noise
+    const schemas = Array.from(new Set([
+      ...visibleTables.map(([, table]) => table.schema ?? ''),
+      ...diagram.views.map((view) => view.schema ?? ''),
+      ...diagram.enums.map((enumType) => enumType.schema ?? ''),
+    ]));
+    const showSchemaGroups = schemas.length > 1;
+
+    // React Flow needs parent nodes listed before their children
+    const groupNodes: Node[] = showSchemaGroups
+      ? schemas.map((schema) => ({
+        id: `schema:${schema}`,
+        type: 'schemaGroup',
+        position: { x: 0, y: 0 },
+        data: { schema: schema || 'default' },
+        selectable: false,
+        zIndex: -1,
+      }))
+      : [];
+
+    const tableNodes: Node[] = visibleTables
+      .map(([id, table], index) => ({
+        id,
+        type: 'table',
+        position: { x: index * 300, y: 0 },
+        data: {
+          table,
+          partitions: partitionsByParent.get(id),
+          partitionsExpanded: expandedPartitions.has(id),
+          onTogglePartitions: () => togglePartitions(id),
+          onSelectRange: selectRange,
+          domains: diagram.domains,
+          compositeTypes: diagram.compositeTypes,
+        },
+        parentNode: showSchemaGroups ? `schema:${table.schema ?? ''}` : undefined,
+      }));
+
+    const enumNodes: Node[] = diagram.enums.map((enumType) => ({
+      id: `enum:${getQualifiedName(enumType.name, enumType.schema)}`,
+      type: 'enum',
+      position: { x: 0, y: 0 },
+      data: { enumType },
+      parentNode: showSchemaGroups ? `schema:${enumType.schema ?? ''}` : undefined,
+    }));
+
+    const viewNodes: Node[] = diagram.views.map((view) => ({
+      id: `view:${getQualifiedName(view.name, view.schema)}`,
+      type: 'view',
+      position: { x: 0, y: 0 },
+      data: { view },
+      parentNode: showSchemaGroups ? `schema:${view.schema ?? ''}` : undefined,
     }));
-  }, [diagram.tables]);
+
+    return [...groupNodes, ...tableNodes, ...viewNodes, ...enumNodes];
+  }, [
+    diagram.tables,
+    diagram.views,
+    diagram.enums,
+    diagram.domains,
+    diagram.compositeTypes,
+    expandedPartitions,
+    togglePartitions,
+    selectRange,
+    collapsedJunctions
+  ]);
 
   const initialEdges: Edge[] = useMemo(() => {
-    return diagram.relationships.map((rel, index) => ({
-      id: `e${index}`,
-      source: rel.from.table,
-      target: rel.to.table,
+    const relationshipEdges: Edge[] = diagram.relationships.map((rel, index) => {
+      const color = getRelationshipColor(rel);
+      const options = formatReferentialOptions(rel);
+      const cascadeIcon = rel.onDelete === 'CASCADE' ? '⇊ ' : '';
+
+      return {
+        id: `e${index}`,
+        source: getQualifiedName(rel.from.table, rel.from.schema),
+        target: getQualifiedName(rel.to.table, rel.to.schema),
+        sourceHandle: 'bottom',
+        targetHandle: 'top',
+        type: 'smoothstep',
+        animated: true,
+        label: [
+          `${cascadeIcon}${formatRelationshipColumns(rel)} (${formatCardinality(rel)})`,
+          ...options
+        ].join(' · '),
+        style: {
+          stroke: color,
+          strokeWidth: rel.onDelete === 'CASCADE' ? 3 : 2
+        },
+        labelStyle: {
+          fontSize: 12,
+          fontWeight: 'bold',
+          fill: color
+        },
+        labelBgStyle: {
+          fill: 'white',
+          fillOpacity: 0.9,
+          rx: 4,
+          ry: 4
+        },
+        markerEnd: {
+          type: MarkerType.Arrow,
+          color,
+        },
+      };
+    });
+
+    // Solid teal edge from every child table to the table it inherits from or is a partition of
+    const hierarchyEdges: Edge[] = diagram.tables.flatMap((table) => {
+      const tableId = getQualifiedName(table.name, table.schema);
+      const parents = [
+        ...(table.inherits ?? []).map((parent) => ({ parent, label: 'inherits' })),
+        ...(table.partitionOf ? [{ parent: table.partitionOf, label: 'partition of' }] : []),
+      ];
+
+      return parents.map(({ parent, label }) => {
+        const parentId = getQualifiedName(parent.name, parent.schema);
+        return {
+          id: `hierarchy:${tableId}->${parentId}`,
+          source: tableId,
+          target: parentId,
+          sourceHandle: 'bottom',
+          targetHandle: 'top',
+          type: 'smoothstep',
+          label,
+          style: {
+            stroke: '#0d9488',
+            strokeWidth: 2
+          },
+          labelStyle: {
+            fontSize: 11,
+            fill: '#0d9488'
+          },
+          labelBgStyle: {
+            fill: 'white',
+            fillOpacity: 0.9,
+            rx: 4,
+            ry: 4
+          },
+          markerEnd: {
+            type: MarkerType.ArrowClosed,
+            color: '#0d9488',
+          },
+        };
+      });
+    });
+
+    // Dotted edge from every column typed with an enum to that enum's node
+    const enumEdges: Edge[] = diagram.tables.flatMap((table) =>
+      table.columns
+        .filter((column) => column.enumType && !column.inherited)
+        .map((column) => ({
+          id: `enum-${getQualifiedName(table.name, table.schema)}-${column.name}`,
+          source: getQualifiedName(table.name, table.schema),
+          target: `enum:${column.enumType}`,
+          sourceHandle: 'bottom',
+          targetHandle: 'top',
+          type: 'smoothstep',
+          label: column.name,
+          style: {
+            stroke: '#94a3b8',
+            strokeWidth: 1.5,
+            strokeDasharray: '2 4'
+          },
+          labelStyle: {
+            fontSize: 11,
+            fill: '#94a3b8'
+          },
+          labelBgStyle: {
+            fill: 'white',
+            fillOpacity: 0.9,
+            rx: 4,
+            ry: 4
+          },
+        }))
+    );
+
+    // Dashed edge from every view to the tables and views it reads from
+    const viewEdges: Edge[] = diagram.views.flatMap((view) => {
+      const viewId = `view:${getQualifiedName(view.name, view.schema)}`;
+
+      return view.dependencies
+        .filter((dependency) => dependency.kind)
+        .map((dependency) => {
+          const dependencyId = getQualifiedName(dependency.name, dependency.schema);
+          return {
+            id: `${viewId}->${dependencyId}`,
+            source: viewId,
+            target: dependency.kind === 'view' ? `view:${dependencyId}` : dependencyId,
+            sourceHandle: 'bottom',
+            targetHandle: 'top',
+            type: 'smoothstep',
+            style: {
+              stroke: '#8b5cf6',
+              strokeWidth: 1.5,
+              strokeDasharray: '6 4'
+            },
+            markerEnd: {
+              type: MarkerType.Arrow,
+              color: '#8b5cf6',
+            },
+          };
+        });
+    });
+
+    // One edge between the two tables of every collapsed junction table, in place of the junction's own edges
+    const junctionEdges: Edge<JunctionEdgeData>[] = Array.from(collapsedJunctions).map(([junctionId, data]) => ({
+      id: `junction:${junctionId}`,
+      source: getQualifiedName(data.relationships[0].to.table, data.relationships[0].to.schema),
+      target: getQualifiedName(data.relationships[1].to.table, data.relationships[1].to.schema),
       sourceHandle: 'bottom',
       targetHandle: 'top',
-      type: 'smoothstep',
-      animated: true,
-      label: `${rel.from.column} - ${rel.to.column} (${formatRelationshipType(rel.type)})`,
+      type: 'junction',
+      data,
       style: {
-        stroke: '#64748b',
+        stroke: '#6366f1',
         strokeWidth: 2
       },
-      labelStyle: {
-        fontSize: 12,
-        fontWeight: 'bold',
-        fill: '#64748b'
-      },
-      labelBgStyle: {
-        fill: 'white',
-        fillOpacity: 0.9,
-        rx: 4,
-        ry: 4
+      markerStart: {
+        type: MarkerType.Arrow,
+        color: '#6366f1',
       },
       markerEnd: {
         type: MarkerType.Arrow,
-        color: '#64748b',
+        color: '#6366f1',
       },
     }));
-  }, [diagram.relationships]);
+
+    // Collapsed partitions and junction tables, and parents missing from the script, have no node to connect to
+    const nodeIds = new Set(initialNodes.map((node) => node.id));
+    return [...relationshipEdges, ...junctionEdges, ...hierarchyEdges, ...viewEdges, ...enumEdges]
+      .filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target));
+  }, [diagram.tables, diagram.views, diagram.relationships, initialNodes, collapsedJunctions]);
 
   const { nodes: layoutedNodes, edges: layoutedEdges } = useMemo(
     () => getLayoutedElements(initialNodes, initialEdges),
@@ -246,17 +1118,56 @@ export const DiagramView: React.FC<DiagramViewProps> = ({ diagram, isValidSQL })
     [setEdges]
   );
 
+  const highlightedNodeId = useMemo(
+    () => (cursorOffset == null ? undefined : findNodeIdAtOffset(diagram, cursorOffset)),
+    [diagram, cursorOffset]
+  );
+  const highlightedNodeIdRef = useRef(highlightedNodeId);
+  useEffect(() => {
+    highlightedNodeIdRef.current = highlightedNodeId;
+  }, [highlightedNodeId]);
+
   // Update nodes and edges when diagram changes
   React.useEffect(() => {
     const { nodes: newNodes, edges: newEdges } = getLayoutedElements(
       initialNodes,
       initialEdges
     );
-    setNodes(newNodes);
+    setNodes(newNodes.map((node) => ({ ...node, selected: node.id === highlightedNodeIdRef.current })));
     setEdges(newEdges);
   }, [diagram, initialNodes, initialEdges, setNodes, setEdges]);
 
-  if (!isValidSQL) {
+  // Select and center the node the editor cursor moved into
+  useEffect(() => {
+    setNodes((nds) => nds.map((node) => ({ ...node, selected: node.id === highlightedNodeId })));
+
+    const node = highlightedNodeId ? getNode(highlightedNodeId) : undefined;
+    if (node?.positionAbsolute) {
+      setCenter(
+        node.positionAbsolute.x + (node.width ?? 0) / 2,
+        node.positionAbsolute.y + (node.height ?? 0) / 2,
+        { zoom: getZoom(), duration: 300 }
+      );
+    }
+  }, [highlightedNodeId, setNodes, getNode, getZoom, setCenter]);
+
+  // Clicking a node or one of its columns selects its definition in the editor
+  const onNodeClick = useCallback((event: React.MouseEvent, node: Node) => {
+    const target = event.target as HTMLElement;
+    if (!onSelectRange || target.closest('button')) return;
+
+    const { table, view, enumType } = node.data as { table?: Table; view?: View; enumType?: EnumType };
+    const columnName = target.closest<HTMLElement>('[data-column]')?.dataset.column;
+    const column = table?.columns.find((col) => col.name === columnName);
+
+    const range = column?.range ?? (table ?? view ?? enumType)?.range;
+    if (range) {
+      onSelectRange(range);
+    }
+  }, [onSelectRange]);
+
+  // Statements that did parse are still drawn when others have errors
+  if (!isValidSQL && diagram.tables.length === 0 && diagram.views.length === 0) {
     return (
       <div className="flex items-center justify-center h-full">
         <div className="text-center">
@@ -269,7 +1180,7 @@ export const DiagramView: React.FC<DiagramViewProps> = ({ diagram, isValidSQL })
     );
   }
 
-  if (diagram.tables.length === 0) {
+  if (diagram.tables.length === 0 && diagram.views.length === 0) {
     return (
       <div className="flex items-center justify-center h-full">
         <div className="text-center">
@@ -283,14 +1194,40 @@ export const DiagramView: React.FC<DiagramViewProps> = ({ diagram, isValidSQL })
   }
 
   return (
-    <div className="h-full w-full">
+    <div className="relative h-full w-full">
+      {/* While the SQL has errors the last valid diagram stays mounted, so zoom and pan survive the edit */}
+      {!isValidSQL && (
+        <div className="pointer-events-none absolute inset-0 z-10 bg-background/40">
+          <div className="absolute top-3 left-3 flex items-center gap-2 rounded-md border bg-card px-2 py-1 shadow-sm">
+            <Badge variant="destructive" className="text-[10px] sm:text-xs px-1.5 py-0">
+              {errorCount} error{errorCount !== 1 ? 's' : ''}
+            </Badge>
+            <span className="text-xs text-muted-foreground">Diagram may be out of date</span>
+          </div>
+        </div>
+      )}
+      {junctionTables.size > 0 && (
+        <Button
+          variant={collapseJunctions ? 'default' : 'outline'}
+          size="sm"
+          className="absolute top-3 right-3 z-20 h-7 text-xs"
+          onClick={() => setCollapseJunctions((collapsed) => !collapsed)}
+          aria-pressed={collapseJunctions}
+          title={collapseJunctions ? 'Show junction tables' : 'Draw junction tables as many-to-many edges'}
+        >
+          <Waypoints className="w-3 h-3 sm:mr-1" />
+          <span className="hidden sm:inline">Collapse junctions</span>
+        </Button>
+      )}
       <ReactFlow
         nodes={nodes}
         edges={edges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
+        onNodeClick={onNodeClick}
         nodeTypes={nodeTypes}
+        edgeTypes={edgeTypes}
         connectionMode={ConnectionMode.Loose}
         fitView
         fitViewOptions={{
@@ -0,0 +1,73 @@
+import { ListChecks } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { LINT_RULES } from '@/lib/schemaLint';
+import type { LintConfig, LintRuleId, LintRuleSetting, LintSeverity } from '@/lib/schemaLint';
+
+const SEVERITIES: Record<LintSeverity, string> = {
+  error: 'Error',
+  warning: 'Warning',
+  info: 'Info'
+};
+
+interface LintSettingsProps {
+  config: LintConfig;
+  onChange: (config: LintConfig) => void;
+}
+
+// Popover to switch schema lint rules on and off and pick how their problems are reported
+export function LintSettings({ config, onChange }: LintSettingsProps) {
+  const enabledCount = Object.values(config).filter(setting => setting.enabled).length;
+
+  const updateRule = (rule: LintRuleId, setting: Partial<LintRuleSetting>) => {
+    onChange({ ...config, [rule]: { ...config[rule], ...setting } });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" title={`Lint rules (${enabledCount} on)`}>
+          <ListChecks className="h-[1.2rem] w-[1.2rem]" />
+          <span className="sr-only">Lint rules</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-3" align="end">
+        <h4 className="text-sm font-semibold mb-2">Lint rules</h4>
+        <ul className="space-y-3">
+          {(Object.keys(LINT_RULES) as LintRuleId[]).map((rule) => (
+            <li key={rule} className="flex items-start gap-2">
+              <Switch
+                id={`lint-${rule}`}
+                className="mt-0.5"
+                checked={config[rule].enabled}
+                onCheckedChange={(enabled) => updateRule(rule, { enabled })}
+              />
+              <label htmlFor={`lint-${rule}`} className="flex-1 min-w-0 text-xs space-y-0.5">
+                <div className="font-medium">{LINT_RULES[rule].label}</div>
+                <div className="text-muted-foreground">{LINT_RULES[rule].description}</div>
+              </label>
+              <Select
+                value={config[rule].severity}
+                onValueChange={(severity) => updateRule(rule, { severity: severity as LintSeverity })}
+                disabled={!config[rule].enabled}
+              >
+                <SelectTrigger size="sm" className="w-[100px] text-xs" aria-label={`Severity of ${LINT_RULES[rule].label}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SEVERITIES) as LintSeverity[]).map((severity) => (
+                    <SelectItem key={severity} value={severity}>
+                      {SEVERITIES[severity]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,311 @@
+import { getPosition, getQualifiedName, maskLiterals, quoteIdentifier, quoteQualifiedName } from '@/lib/sqlParser';
+import type { SourceRange, SQLDialect, SQLDiagram, SQLError, SQLFix, Table, TableColumn } from '@/lib/sqlParser';
+
+export type LintRuleId =
+  | 'require-primary-key'
+  | 'index-foreign-keys'
+  | 'consistent-table-plurality'
+  | 'snake-case-names'
+  | 'nullable-foreign-key'
+  | 'timestamp-time-zone'
+  | 'varchar-length';
+
+export type LintSeverity = SQLError['severity'];
+
+export interface LintRuleSetting {
+  enabled: boolean;
+  severity: LintSeverity;
+}
+
+export type LintConfig = Record<LintRuleId, LintRuleSetting>;
+
+export interface LintRule {
+  label: string;
+  description: string;
+  // Dialects the rule applies to, all of them when unset
+  dialects?: SQLDialect[];
+}
+
+export const LINT_RULES: Record<LintRuleId, LintRule> = {
+  'require-primary-key': {
+    label: 'Primary key',
+    description: 'Every table has a primary key'
+  },
+  'index-foreign-keys': {
+    label: 'Indexed foreign keys',
+    description: 'Foreign key columns lead an index that joins and cascading deletes can use'
+  },
+  'consistent-table-plurality': {
+    label: 'Consistent table names',
+    description: 'Table names are all plural or all singular, like most of the schema'
+  },
+  'snake-case-names': {
+    label: 'snake_case names',
+    description: 'Table and column names are lower case words joined by underscores'
+  },
+  'nullable-foreign-key': {
+    label: 'Required foreign keys',
+    description: 'Foreign key columns are NOT NULL'
+  },
+  'timestamp-time-zone': {
+    label: 'Time zones',
+    description: 'Timestamps are timestamptz rather than timestamp without time zone',
+    dialects: ['postgresql']
+  },
+  'varchar-length': {
+    label: 'varchar length',
+    description: 'varchar columns declare a maximum length'
+  }
+};
+
+export const DEFAULT_LINT_CONFIG: LintConfig = {
+  'require-primary-key': { enabled: true, severity: 'warning' },
+  'index-foreign-keys': { enabled: true, severity: 'warning' },
+  'consistent-table-plurality': { enabled: true, severity: 'info' },
+  'snake-case-names': { enabled: true, severity: 'info' },
+  'nullable-foreign-key': { enabled: false, severity: 'info' },
+  'timestamp-time-zone': { enabled: true, severity: 'info' },
+  'varchar-length': { enabled: false, severity: 'info' }
+};
+
+// A problem found by a rule, at the source range of the table, column or foreign key it concerns
+interface LintProblem {
+  rule: LintRuleId;
+  message: string;
+  range?: SourceRange;
+  fixes?: SQLFix[];
+}
+
+// Check a parsed schema against the enabled rules. Problems on objects without a source range,
+// like those from the fallback parser, aren't reported.
+export function lintSchema(
+  diagram: SQLDiagram,
+  sql: string,
+  dialect: SQLDialect,
+  config: LintConfig = DEFAULT_LINT_CONFIG
+): SQLError[] {
+  const problems: LintProblem[] = [
+    ...checkPrimaryKeys(diagram, sql, dialect),
+    ...checkForeignKeys(diagram, sql, dialect),
+    ...checkTablePlurality(diagram, sql),
+    ...checkSnakeCase(diagram, sql),
+    ...checkColumnTypes(diagram)
+  ];
+
+  return problems
+    .filter(problem => {
+      const { dialects } = LINT_RULES[problem.rule];
+      return config[problem.rule].enabled && problem.range && (!dialects || dialects.includes(dialect));
+    })
+    .map(problem => {
+      const start = getPosition(sql, problem.range![0]);
+      const end = getPosition(sql, problem.range![1]);
+      return {
+        message: problem.message,
+        line: start.line,
+        column: start.column,
+        endLine: end.line,
+        endColumn: end.column,
+        severity: config[problem.rule].severity,
+        code: problem.rule,
+        fixes: problem.fixes
+      };
+    });
+}
+
+// Only the first line of a CREATE TABLE is marked, rather than the whole statement
+function getTableHeadRange(table: Table, sql: string): SourceRange | undefined {
+  if (!table.range) return undefined;
+
+  const lineEnd = sql.indexOf('\n', table.range[0]);
+  return [table.range[0], lineEnd === -1 ? table.range[1] : Math.min(lineEnd, table.range[1])];
+}
+
+// After the semicolon of the statement a range is part of, so a foreign key added by a later
+// ALTER TABLE gets its index after that statement rather than after the CREATE TABLE. Searched in
+// the masked script, as a semicolon in a string or comment doesn't end the statement.
+function getStatementEnd(range: SourceRange, maskedSQL: string): number {
+  const semicolon = maskedSQL.indexOf(';', range[1]);
+  return semicolon === -1 ? maskedSQL.length : semicolon + 1;
+}
+
+// Name of a table as its CREATE TABLE wrote it, so fixes keep its quoting and don't add the schema
+// it was only found in through the search path
+const WRITTEN_NAME = String.raw`(?:"(?:[^"]|"")*"|\`(?:[^\`]|\`\`)*\`|\[[^\]]*\]|[\w$]+)`;
+const CREATE_TABLE_NAME = new RegExp(
+  String.raw`^CREATE\s+(?:[\w\s]+?\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(${WRITTEN_NAME}(?:\s*\.\s*${WRITTEN_NAME})*)`,
+  'i'
+);
+
+function getWrittenTableName(table: Table, sql: string, dialect: SQLDialect): string {
+  const match = table.range && CREATE_TABLE_NAME.exec(sql.slice(table.range[0], table.range[1]));
+  return match ? match[1] : quoteQualifiedName(table.name, table.schema, dialect);
+}
+
+// Auto-generated key column types, one per dialect
+const ID_COLUMN_TYPES: Record<SQLDialect, string> = {
+  postgresql: 'SERIAL',
+  mysql: 'INT AUTO_INCREMENT',
+  mariadb: 'INT AUTO_INCREMENT',
+  sqlite: 'INTEGER'
+};
+
+// Make an existing id column the primary key, or add one in front of the other columns
+function getPrimaryKeyFixes(table: Table, sql: string, dialect: SQLDialect): SQLFix[] {
+  const idColumn = table.columns.find(column => column.name.toLowerCase() === 'id' && !column.inherited);
+  if (idColumn?.range) {
+    return [{
+      title: `Make "${idColumn.name}" the primary key`,
+      edits: [{ range: [idColumn.range[1], idColumn.range[1]], text: ' PRIMARY KEY' }]
+    }];
+  }
+
+  const firstColumn = table.columns.find(column => column.range && !column.inherited);
+  if (idColumn || !firstColumn?.range) return [];
+
+  // Line the new column up with the first one
+  const offset = firstColumn.range[0];
+  const lineStart = sql.lastIndexOf('\n', offset - 1) + 1;
+  const indent = sql.slice(lineStart, offset);
+  const separator = /^\s*$/.test(indent) ? `,\n${indent}` : ', ';
+
+  return [{
+    title: 'Add an "id" primary key column',
+    edits: [{ range: [offset, offset], text: `id ${ID_COLUMN_TYPES[dialect]} PRIMARY KEY${separator}` }]
+  }];
+}
+
+function checkPrimaryKeys(diagram: SQLDiagram, sql: string, dialect: SQLDialect): LintProblem[] {
+  return diagram.tables
+    // Partitions share the key of their parent
+    .filter(table => !table.partitionOf && !table.columns.some(column => column.primaryKey))
+    .map(table => ({
+      rule: 'require-primary-key',
+      message: `Table "${getQualifiedName(table.name, table.schema)}" has no primary key`,
+      range: getTableHeadRange(table, sql),
+      fixes: table.range && getPrimaryKeyFixes(table, sql, dialect)
+    }));
+}
+
+function checkForeignKeys(diagram: SQLDiagram, sql: string, dialect: SQLDialect): LintProblem[] {
+  const maskedSQL = maskLiterals(sql, dialect);
+  return diagram.tables.flatMap(table => table.foreignKeys.flatMap(foreignKey => {
+    const problems: LintProblem[] = [];
+    const columns = foreignKey.columns.join(', ');
+
+    if (!isIndexPrefix(table, foreignKey.columns)) {
+      const offset = foreignKey.range && getStatementEnd(foreignKey.range, maskedSQL);
+      const indexName = quoteIdentifier(`${table.name}_${foreignKey.columns.join('_')}_idx`, dialect);
+      const indexColumns = foreignKey.columns.map(name => quoteIdentifier(name, dialect)).join(', ');
+      problems.push({
+        rule: 'index-foreign-keys',
+        message: `Foreign key (${columns}) of "${table.name}" isn't covered by an index`,
+        range: foreignKey.range,
+        fixes: offset === undefined ? undefined : [{
+          title: `Add an index on ${table.name} (${columns})`,
+          edits: [{
+            range: [offset, offset],
+            text: `\n\nCREATE INDEX ${indexName} ON ${getWrittenTableName(table, sql, dialect)} (${indexColumns});`
+          }]
+        }]
+      });
+    }
+
+    table.columns
+      .filter(column => foreignKey.columns.includes(column.name) && column.nullable)
+      .forEach(column => problems.push({
+        rule: 'nullable-foreign-key',
+        message: `Foreign key column "${column.name}" is nullable`,
+        range: column.range
+      }));
+
+    return problems;
+  }));
+}
+
+// Whether the columns, in any order, are the leading columns of the primary key, a unique key or an index
+function isIndexPrefix(table: Table, columnNames: string[]): boolean {
+  const leads = (columns: string[]) =>
+    columns.length >= columnNames.length && columns.slice(0, columnNames.length).every(name => columnNames.includes(name));
+
+  return leads(table.columns.filter(column => column.primaryKey).map(column => column.name))
+    || table.uniqueKeys.some(uniqueKey => leads(uniqueKey.columns))
+    || table.indexes.some(index => leads(index.columns));
+}
+
+const IRREGULAR_PLURALS = new Set(['people', 'children', 'men', 'women', 'data', 'media']);
+
+// Judged by the last word of the name, so post_categories is plural and order_status singular
+function isPlural(name: string): boolean {
+  const word = name.toLowerCase().split('_').pop() ?? '';
+  if (IRREGULAR_PLURALS.has(word)) return true;
+  if (/(?:ies|sses|xes|ches|shes)$/.test(word)) return true;
+  if (/(?:ss|us|is)$/.test(word)) return false;
+  return word.endsWith('s');
+}
+
+function checkTablePlurality(diagram: SQLDiagram, sql: string): LintProblem[] {
+  const plural = diagram.tables.filter(table => isPlural(table.name));
+  const singular = diagram.tables.filter(table => !isPlural(table.name));
+  if (plural.length === singular.length) return [];
+
+  const [outliers, form] = plural.length > singular.length ? [singular, 'plural'] : [plural, 'singular'];
+  return outliers.map(table => ({
+    rule: 'consistent-table-plurality',
+    message: `Table "${table.name}" isn't ${form} like most tables in the schema`,
+    range: getTableHeadRange(table, sql)
+  }));
+}
+
+const SNAKE_CASE = /^[a-z][a-z0-9]*(?:_[a-z0-9]+)*$/;
+
+function checkSnakeCase(diagram: SQLDiagram, sql: string): LintProblem[] {
+  return diagram.tables.flatMap(table => {
+    const problems: LintProblem[] = table.columns
+      .filter(column => !column.inherited && !SNAKE_CASE.test(column.name))
+      .map(column => ({
+        rule: 'snake-case-names',
+        message: `Column name "${column.name}" isn't snake_case`,
+        range: column.range
+      }));
+
+    if (!SNAKE_CASE.test(table.name)) {
+      problems.unshift({
+        rule: 'snake-case-names',
+        message: `Table name "${table.name}" isn't snake_case`,
+        range: getTableHeadRange(table, sql)
+      });
+    }
+    return problems;
+  });
+}
+
+function checkColumnTypes(diagram: SQLDiagram): LintProblem[] {
+  return diagram.tables.flatMap(table => table.columns
+    .filter(column => !column.inherited)
+    .flatMap(column => {
+      const problems: LintProblem[] = [];
+      const type = getStoredType(column);
+
+      if (type === 'timestamp' || type === 'timestamp without time zone') {
+        problems.push({
+          rule: 'timestamp-time-zone',
+          message: `Column "${column.name}" is a timestamp without time zone`,
+          range: column.range
+        });
+      }
+      if ((type === 'varchar' || type === 'character varying') && !column.typeParams) {
+        problems.push({
+          rule: 'varchar-length',
+          message: `Column "${column.name}" is a varchar without a length`,
+          range: column.range
+        });
+      }
+      return problems;
+    }));
+}
+
+// Domains are checked by the type they're stored as
+function getStoredType(column: TableColumn): string {
+  return (column.baseType ?? column.type).toLowerCase();
+}
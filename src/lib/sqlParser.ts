@@ -1,198 +1,2397 @@
 import { parse } from 'sql-parser-cst';
 
+export type SQLDialect = 'postgresql' | 'mysql' | 'mariadb' | 'sqlite';
+
+export const SQL_DIALECTS: Record<SQLDialect, string> = {
+  postgresql: 'PostgreSQL',
+  mysql: 'MySQL',
+  mariadb: 'MariaDB',
+  sqlite: 'SQLite'
+};
+
+// How SQLite stores the values of a column, derived from its declared type
+export type TypeAffinity = 'INTEGER' | 'TEXT' | 'BLOB' | 'REAL' | 'NUMERIC';
+
+// Start and end character offsets of an entity's definition in the SQL text
+export type SourceRange = [number, number];
+
 export interface TableColumn {
   name: string;
+  // Base type as written, without length/precision or array suffix
   type: string;
+  // Length or precision arguments, e.g. ['10', '2'] for numeric(10,2)
+  typeParams?: string[];
+  isArray: boolean;
   nullable: boolean;
   primaryKey: boolean;
-  foreignKey?: {
+  unique: boolean;
+  autoIncrement: boolean;
+  // DEFAULT expression as written
+  default?: string;
+  // CHECK expressions that involve this column
+  checks: string[];
+  // Qualified name of the enum the column's type refers to
+  enumType?: string;
+  // Qualified name of the domain the column's type refers to, whose constraints apply to the column
+  domain?: string;
+  // Qualified name of the composite type the column's type refers to
+  compositeType?: string;
+  // Type a domain-typed column is stored as, e.g. citext
+  baseType?: string;
+  // From COMMENT ON COLUMN, MySQL's COMMENT '...', or a SQL comment on or right above the column's line
+  description?: string;
+  // SQLite only
+  affinity?: TypeAffinity;
+  // SQLite's INTEGER PRIMARY KEY, which is another name for the table's rowid
+  rowidAlias?: boolean;
+  // Copied from the table this one inherits from or is a partition of
+  inherited?: boolean;
+  // GENERATED ALWAYS/BY DEFAULT AS IDENTITY
+  identity?: 'ALWAYS' | 'BY DEFAULT';
+  // Expression of a computed column, GENERATED ALWAYS AS (...) STORED/VIRTUAL
+  generated?: { expression: string; storage: 'STORED' | 'VIRTUAL' };
+  // Sequence the values are drawn from: a serial type's implicit one, a nextval() default or OWNED BY
+  sequence?: string;
+  range?: SourceRange;
+}
+
+export type ReferentialAction = 'CASCADE' | 'RESTRICT' | 'SET NULL' | 'SET DEFAULT' | 'NO ACTION';
+
+// What happens to referencing rows, and when the key is checked
+export interface ReferentialOptions {
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+  match?: 'FULL' | 'PARTIAL' | 'SIMPLE';
+  deferrable?: boolean;
+  initiallyDeferred?: boolean;
+}
+
+export interface ForeignKey extends ReferentialOptions {
+  name?: string;
+  // Local columns, in the same order as the referenced columns they point to
+  columns: string[];
+  references: {
+    // Written schema, or the one the search path resolved to when the key was declared
+    schema?: string;
     table: string;
-    column: string;
+    // Empty until resolved to the referenced table's primary key when the key didn't list them
+    columns: string[];
+  };
+  // The REFERENCES clause
+  range?: SourceRange;
+}
+
+export interface UniqueKey {
+  name?: string;
+  columns: string[];
+  // The UNIQUE constraint
+  range?: SourceRange;
+}
+
+export interface TableIndex {
+  name?: string;
+  // Column names, or the expression text for expression indexes like lower(email)
+  columns: string[];
+  unique: boolean;
+  method: string;
+  // Predicate of a partial index
+  where?: string;
+  // The CREATE INDEX statement, or the KEY/INDEX entry of MySQL's CREATE TABLE
+  range?: SourceRange;
+}
+
+export interface Table {
+  name: string;
+  schema?: string;
+  columns: TableColumn[];
+  foreignKeys: ForeignKey[];
+  uniqueKeys: UniqueKey[];
+  indexes: TableIndex[];
+  primaryKeyName?: string;
+  // From COMMENT ON TABLE, or MySQL's COMMENT='...' table option
+  description?: string;
+  // MySQL table options like ENGINE and CHARSET
+  options?: Record<string, string>;
+  // SQLite table declared WITHOUT ROWID
+  withoutRowid?: boolean;
+  // Parents listed in INHERITS (...)
+  inherits?: EntityRef[];
+  // Parent of a partition and the bound it covers, like FROM ('2024-01-01') TO ('2025-01-01') or DEFAULT
+  partitionOf?: EntityRef & { bound: string };
+  // Strategy and key of a partitioned table, e.g. RANGE (logdate)
+  partitionBy?: string;
+  // The CREATE TABLE statement
+  range?: SourceRange;
+}
+
+// Base type, length/precision params and array suffix of a column or attribute
+export type DataType = Pick<TableColumn, 'type' | 'typeParams' | 'isArray'>;
+
+// CREATE DOMAIN name AS type [NOT NULL] [DEFAULT ...] [CHECK (...)]
+export interface DomainType {
+  name: string;
+  schema?: string;
+  baseType: DataType;
+  nullable: boolean;
+  default?: string;
+  // CHECK expressions, written against VALUE
+  checks: string[];
+  range?: SourceRange;
+}
+
+// CREATE TYPE name AS (attribute type, ...)
+export interface CompositeType {
+  name: string;
+  schema?: string;
+  attributes: Array<DataType & { name: string }>;
+  range?: SourceRange;
+}
+
+export interface EnumType {
+  name: string;
+  schema?: string;
+  values: string[];
+  range?: SourceRange;
+}
+
+export interface ViewDependency {
+  schema?: string;
+  name: string;
+  // Set once the name resolves to a table or view in the script
+  kind?: 'table' | 'view';
+}
+
+export interface View {
+  name: string;
+  schema?: string;
+  materialized: boolean;
+  columns: string[];
+  // Tables and views read in the view's FROM/JOIN clauses
+  dependencies: ViewDependency[];
+  range?: SourceRange;
+}
+
+export interface RelationshipEndpoint {
+  schema?: string;
+  table: string;
+  columns: string[];
+}
+
+// How many rows at one end of a relationship match a single row at the other end
+export type Multiplicity = 'zero-or-one' | 'exactly-one' | 'many';
+
+export interface RelationshipCardinality {
+  // Read from the referencing table: a foreign key is never one-to-many, and junction tables link many to many
+  type: 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+  // Referencing rows per referenced row, at most one when the foreign key columns are unique
+  fromMultiplicity: Extract<Multiplicity, 'zero-or-one' | 'many'>;
+  // Referenced rows per referencing row, zero when a nullable foreign key is left empty
+  toMultiplicity: Extract<Multiplicity, 'zero-or-one' | 'exactly-one'>;
+}
+
+export interface Relationship extends ReferentialOptions, RelationshipCardinality {
+  from: RelationshipEndpoint;
+  to: RelationshipEndpoint;
+}
+
+export interface SQLError {
+  message: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+  severity: 'error' | 'warning' | 'info';
+  // Schema lint rule that reported the problem, unset for parser errors and warnings
+  code?: string;
+  // Quick fixes the editor offers for the problem
+  fixes?: SQLFix[];
+}
+
+// Replace a range of the script with new text, or insert it when the range is empty
+export interface SQLTextEdit {
+  range: SourceRange;
+  text: string;
+}
+
+export interface SQLFix {
+  title: string;
+  edits: SQLTextEdit[];
+}
+
+export interface SQLParseResult {
+  diagram: SQLDiagram;
+  errors: SQLError[];
+  isValid: boolean;
+}
+
+export interface SQLDiagram {
+  tables: Table[];
+  relationships: Relationship[];
+  enums: EnumType[];
+  views: View[];
+  domains: DomainType[];
+  compositeTypes: CompositeType[];
+}
+
+// Syntax that only one dialect uses, counted to guess the dialect of a script
+const DIALECT_HINTS: Array<{ dialect: SQLDialect; pattern: RegExp }> = [
+  { dialect: 'mysql', pattern: /`/g },
+  { dialect: 'mysql', pattern: /\bENGINE\s*=/gi },
+  { dialect: 'mysql', pattern: /\bAUTO_INCREMENT\b/gi },
+  { dialect: 'mysql', pattern: /\bUNSIGNED\b/gi },
+  { dialect: 'sqlite', pattern: /\bAUTOINCREMENT\b/gi },
+  { dialect: 'sqlite', pattern: /\bWITHOUT\s+ROWID\b/gi },
+  { dialect: 'sqlite', pattern: /\bPRAGMA\b/gi },
+  { dialect: 'postgresql', pattern: /\b(?:SMALL|BIG)?SERIAL\b/gi },
+  { dialect: 'postgresql', pattern: /::/g },
+  { dialect: 'postgresql', pattern: /\b(?:JSONB|TIMESTAMPTZ)\b/gi },
+  { dialect: 'postgresql', pattern: /\bCREATE\s+(?:TYPE|EXTENSION|SCHEMA)\b/gi }
+];
+
+// Schema used for unqualified names until the script changes the search_path
+const DEFAULT_SEARCH_PATH = ['public'];
+
+// Options for sql-parser-cst, ranges and comments are needed to map entities back to the source
+function getParseOptions(dialect: SQLDialect) {
+  return { dialect, includeRange: true, includeComments: true };
+}
+
+// MariaDB shares MySQL's syntax extensions and quoting rules
+function isMySQLFamily(dialect: SQLDialect): boolean {
+  return dialect === 'mysql' || dialect === 'mariadb';
+}
+
+// Statement type for `SET search_path`, which the parser doesn't support and we read from the text
+const SET_SEARCH_PATH_STMT = 'set_search_path_stmt';
+
+// Statement type for ALTER TABLE ... ATTACH/DETACH PARTITION, which the parser doesn't support either
+const PARTITION_STMT = 'partition_stmt';
+
+// Opening tag of a dollar-quoted string like $$ or $body$, matched at a given index
+const DOLLAR_QUOTE_TAG = /\$(?:[A-Za-z_]\w*)?\$/y;
+
+export interface EntityRef {
+  schema?: string;
+  name: string;
+}
+
+interface SourceComment {
+  text: string;
+  range: [number, number];
+}
+
+// A COMMENT ON statement, which the parser doesn't support and we read from the text instead
+interface CommentStatement {
+  kind: string;
+  name: string[];
+  // null for `IS NULL`, which removes the comment
+  text: string | null;
+  offset: number;
+}
+
+// MySQL syntax the parser doesn't support, blanked out of the script before parsing and keyed
+// by the source offset where the parsed node it belongs to starts
+interface MySQLExtensions {
+  // Names and USING methods of inline `KEY name (...)` definitions, by the offset of their first keyword
+  keys: Map<number, { name?: string; method?: string }>;
+  // UNSIGNED/ZEROFILL following a column type, by their own offset
+  typeModifiers: Map<number, string>;
+  // Options after the column list of CREATE TABLE, by the offset of the statement
+  tableOptions: Map<number, Record<string, string>>;
+}
+
+// State shared by the statements of a script while it's being applied in order
+interface ParseContext {
+  sql: string;
+  dialect: SQLDialect;
+  mysqlExtensions: MySQLExtensions;
+  // pg_dump's SEQUENCE NAME options of identity columns, blanked out before parsing, by offset
+  identitySequences: Map<number, string>;
+  tables: Table[];
+  enums: EnumType[];
+  views: View[];
+  domains: DomainType[];
+  compositeTypes: CompositeType[];
+  searchPath: string[];
+  // `--` and `/* */` comments of the whole script, in source order
+  comments: SourceComment[];
+  // Syntax errors, and warnings for statements that refer to objects the script doesn't define
+  errors: SQLError[];
+}
+
+export function parseSQLToDiagram(sqlCode: string, dialect: SQLDialect = 'postgresql'): SQLParseResult {
+  const tables: Table[] = [];
+  const relationships: Relationship[] = [];
+  const enums: EnumType[] = [];
+  const views: View[] = [];
+  const domains: DomainType[] = [];
+  const compositeTypes: CompositeType[] = [];
+  const errors: SQLError[] = [];
+  const context: ParseContext = {
+    sql: sqlCode,
+    dialect,
+    mysqlExtensions: { keys: new Map(), typeModifiers: new Map(), tableOptions: new Map() },
+    identitySequences: new Map(),
+    tables,
+    enums,
+    views,
+    domains,
+    compositeTypes,
+    // Only PostgreSQL has a search path, elsewhere unqualified names stay unqualified
+    searchPath: dialect === 'postgresql' ? [...DEFAULT_SEARCH_PATH] : [],
+    comments: [],
+    errors
+  };
+
+  if (!sqlCode.trim()) {
+    return {
+      diagram: { tables, relationships, enums, views, domains, compositeTypes },
+      errors: [],
+      isValid: true
+    };
+  }
+
+  try {
+    // COMMENT ON is blanked out before parsing, keeping the offsets of everything else intact
+    const { sql: commentFreeSQL, comments: commentStatements } = extractCommentStatements(sqlCode, dialect);
+    const parsableSQL = isMySQLFamily(dialect)
+      ? extractMySQLExtensions(commentFreeSQL, context.mysqlExtensions)
+      : extractIdentitySequenceNames(commentFreeSQL, context.identitySequences);
+
+    const statements = parseStatements(parsableSQL, context, errors);
+    if (errors.length > 0) {
+      errors.push(...findCommonTypos(maskLiterals(sqlCode, dialect)));
+    }
+
+    // Apply CREATE TABLE and ALTER TABLE statements in script order
+    statements.forEach((statement: unknown) => {
+      const statementObj = statement as Record<string, unknown>;
+
+      // Comments apply to whatever the script defined before them
+      const statementStart = (statementObj?.range as [number, number] | undefined)?.[0] ?? 0;
+      while (commentStatements.length > 0 && commentStatements[0].offset < statementStart) {
+        applyCommentStatement(commentStatements.shift()!, context);
+      }
+
+      switch (statementObj?.type) {
+        case 'create_table_stmt': {
+          const parsed = parseCreateTable(statementObj, context);
+          const table = parsed?.table;
+          // Like the database, keep the table that was created first
+          if (table && findRelation(tables, table, []) && !statementObj.ifNotExistsKw) {
+            warnAt(context, statementObj.name, `Table "${getQualifiedName(table.name, table.schema)}" already exists`);
+          } else if (table && !findRelation(tables, table, [])) {
+            tables.push(table);
+            enums.push(...parsed.inlineEnums);
+            qualifyForeignKeys(table, context);
+          }
+          break;
+        }
+        case 'alter_table_stmt':
+          applyAlterTable(statementObj, context);
+          break;
+        case 'drop_table_stmt':
+          applyDropTable(statementObj, context);
+          break;
+        case 'rename_table_stmt':
+          applyRenameTable(statementObj, context);
+          break;
+        case 'create_index_stmt':
+          applyCreateIndex(statementObj, context);
+          break;
+        case 'create_view_stmt': {
+          const view = parseCreateView(statementObj, context);
+          if (view) {
+            views.push(view);
+          }
+          break;
+        }
+        case 'create_sequence_stmt':
+        case 'alter_sequence_stmt':
+          applySequenceOwner(statementObj, context);
+          break;
+        case 'create_type_stmt': {
+          const enumType = parseCreateEnum(statementObj, context);
+          if (enumType) {
+            enums.push(enumType);
+          }
+          const compositeType = parseCreateCompositeType(statementObj, context);
+          if (compositeType) {
+            compositeTypes.push(compositeType);
+          }
+          break;
+        }
+        case 'create_domain_stmt': {
+          const domain = parseCreateDomain(statementObj, context);
+          if (domain) {
+            domains.push(domain);
+          }
+          break;
+        }
+        case 'alter_type_stmt':
+          applyAlterEnum(statementObj, context);
+          break;
+        case 'select_stmt':
+          applySearchPathConfig(statementObj, context);
+          break;
+        case SET_SEARCH_PATH_STMT:
+          context.searchPath = parseSearchPath(statementObj.value as string);
+          break;
+        case PARTITION_STMT:
+          applyPartitionStatement(statementObj, context);
+          break;
+      }
+    });
+
+    commentStatements.forEach(comment => applyCommentStatement(comment, context));
+
+    // Views may read from relations created after them, retry the ones that didn't resolve yet
+    views.forEach(view => resolveViewDependencies(view, context));
+
+    // Foreign keys without target columns point at the referenced table's primary key
+    tables.forEach(table => resolveForeignKeyTargets(table, context));
+
+    // Link columns to the enums, domains and composite types their types refer to
+    tables.forEach(table => {
+      table.columns.forEach(column => {
+        const enumType = findType(enums, { name: column.type }, context.searchPath);
+        if (enumType) {
+          column.enumType = getQualifiedName(enumType.name, enumType.schema);
+        }
+        applyDomain(column, context);
+        const compositeType = findType(compositeTypes, { name: column.type }, context.searchPath);
+        if (compositeType) {
+          column.compositeType = getQualifiedName(compositeType.name, compositeType.schema);
+        }
+      });
+    });
+
+    tables.forEach(table => validateForeignKeys(table, context));
+
+    // Extract relationships from foreign keys, one per constraint so composite keys share an edge
+    tables.forEach(table => {
+      table.foreignKeys.forEach(foreignKey => {
+        const referencedTable = findRelation(
+          tables,
+          { schema: foreignKey.references.schema, name: foreignKey.references.table },
+          context.searchPath
+        );
+        if (referencedTable) {
+          relationships.push({
+            from: { schema: table.schema, table: table.name, columns: [...foreignKey.columns] },
+            to: {
+              schema: referencedTable.schema,
+              table: referencedTable.name,
+              columns: [...foreignKey.references.columns]
+            },
+            ...determineCardinality(table, foreignKey.columns),
+            onDelete: foreignKey.onDelete,
+            onUpdate: foreignKey.onUpdate,
+            match: foreignKey.match,
+            deferrable: foreignKey.deferrable,
+            initiallyDeferred: foreignKey.initiallyDeferred
+          });
+        }
+      });
+    });
+
+  } catch (error) {
+    console.warn('SQL parsing error:', error);
+
+    // Extract error information from sql-parser-cst errors
+    const sqlError = error as {
+      message?: string;
+    };
+
+    const message = sqlError.message || 'SQL parsing failed';
+    const { line, column, cleanMessage } = parseErrorLocation(message);
+
+    errors.push({
+      message: cleanMessage,
+      line,
+      column,
+      severity: 'error'
+    });
+  }
+
+  return {
+    diagram: { tables, relationships, enums, views, domains, compositeTypes },
+    errors,
+    // Warnings don't stop the diagram from reflecting the script
+    isValid: errors.every(error => error.severity !== 'error')
+  };
+}
+
+// A created table and the MySQL inline enum types of its columns, which only exist if the table is kept
+interface ParsedTable {
+  table: Table;
+  inlineEnums: EnumType[];
+}
+
+function parseCreateTable(statement: Record<string, unknown>, context: ParseContext): ParsedTable | null {
+  try {
+    const tableRef = getEntityRef(statement.name);
+    if (!tableRef) return null;
+
+    const range = statement.range as SourceRange | undefined;
+    const table: Table = {
+      name: tableRef.name,
+      // Unqualified tables are created in the first schema of the search path
+      schema: tableRef.schema ?? context.searchPath[0],
+      columns: [],
+      foreignKeys: [],
+      uniqueKeys: [],
+      indexes: [],
+      range
+    };
+
+    const { COMMENT: comment, ...options } = (range && context.mysqlExtensions.tableOptions.get(range[0])) || {};
+    if (comment) table.description = comment;
+    if (Object.keys(options).length > 0) table.options = options;
+
+    const tableOptions = ((statement.options as Record<string, unknown>)?.items || []) as Record<string, unknown>[];
+    table.withoutRowid = tableOptions.some(option => getKeywordText(option.name) === 'WITHOUT ROWID') || undefined;
+
+    applyInheritance(table, statement, context);
+
+    // Handle the new AST structure where columns are in columns.expr.items
+    const columnsObj = statement.columns as Record<string, unknown>;
+    const expr = columnsObj?.expr as Record<string, unknown>;
+    const items = expr?.items as unknown[];
+
+    const inlineEnums: EnumType[] = [];
+    if (items) {
+      const tableConstraints: Record<string, unknown>[] = [];
+
+      items.forEach((item: unknown) => {
+        const itemObj = item as Record<string, unknown>;
+
+        // Table constraints (PRIMARY KEY (...), FOREIGN KEY (...) REFERENCES ...)
+        // share the list with column definitions, optionally wrapped in CONSTRAINT name
+        if (itemObj.type !== 'column_definition') {
+          tableConstraints.push(itemObj);
+          return;
+        }
+
+        const parsed = parseColumn(itemObj, table, context);
+        if (!parsed) return;
+
+        const { column } = parsed;
+        const existingColumn = table.columns.find(col => col.name === column.name);
+        if (existingColumn && !existingColumn.inherited) {
+          warnAt(context, itemObj.name, `Column "${column.name}" is specified more than once`);
+          return;
+        }
+
+        if (existingColumn) {
+          mergeInheritedColumn(existingColumn, column);
+        } else {
+          table.columns.push(column);
+        }
+        applyColumnConstraints(table, parsed);
+        if (parsed.inlineEnum) inlineEnums.push(parsed.inlineEnum);
+      });
+
+      tableConstraints.forEach(constraint => applyTableConstraint(
+        table,
+        unwrapConstraint(constraint),
+        context,
+        getConstraintName(constraint),
+        constraint.modifiers
+      ));
+    }
+
+    if (context.dialect === 'sqlite') {
+      markRowidAlias(table);
+    }
+
+    return { table, inlineEnums };
+  } catch (error) {
+    console.warn('Error parsing table:', error);
+    return null;
+  }
+}
+
+// Apply the actions of an ALTER TABLE statement to a table created earlier in the script
+function applyAlterTable(statement: Record<string, unknown>, context: ParseContext) {
+  const tableRef = getEntityRef(statement.table);
+  const table = tableRef && findRelation(context.tables, tableRef, context.searchPath);
+  if (!table) {
+    if (tableRef && !statement.ifExistsKw) {
+      warnAt(context, statement.table, `Table "${getQualifiedName(tableRef.name, tableRef.schema)}" does not exist`);
+    }
+    return;
+  }
+
+  // Actions on a column the table doesn't have are skipped with a warning
+  const findColumn = (columnObj: unknown, ifExists?: unknown): TableColumn | undefined => {
+    const columnRef = getEntityRef(columnObj);
+    const column = table.columns.find(col => col.name === columnRef?.name);
+    if (!column && columnRef && !ifExists) {
+      warnAt(context, columnObj, `Column "${columnRef.name}" does not exist in table "${table.name}"`);
+    }
+    return column;
+  };
+
+  const actionsObj = statement.actions as Record<string, unknown>;
+  const actions = (actionsObj?.items || []) as unknown[];
+
+  actions.forEach((action: unknown) => {
+    const actionObj = action as Record<string, unknown>;
+
+    switch (actionObj.type) {
+      case 'alter_action_add_constraint': {
+        const nameObj = (actionObj.name as Record<string, unknown>)?.name as Record<string, unknown>;
+        const constraintName = (nameObj?.name || nameObj?.text) as string | undefined;
+        applyTableConstraint(
+          table,
+          actionObj.constraint as Record<string, unknown>,
+          context,
+          constraintName,
+          actionObj.modifiers
+        );
+        break;
+      }
+      case 'alter_action_drop_constraint': {
+        const constraintObj = actionObj.constraint as Record<string, unknown>;
+        dropConstraint(table, (constraintObj?.name || constraintObj?.text) as string);
+        break;
+      }
+      case 'alter_action_drop_primary_key':
+        dropPrimaryKey(table);
+        break;
+      case 'alter_action_add_column': {
+        const columnObj = actionObj.column as Record<string, unknown>;
+        const parsed = parseColumn(columnObj, table, context);
+        if (parsed && table.columns.some(col => col.name === parsed.column.name)) {
+          if (!actionObj.ifNotExistsKw) {
+            warnAt(context, columnObj.name, `Column "${parsed.column.name}" of table "${table.name}" already exists`);
+          }
+        } else if (parsed) {
+          table.columns.push(parsed.column);
+          applyColumnConstraints(table, parsed);
+          if (parsed.inlineEnum) context.enums.push(parsed.inlineEnum);
+        }
+        break;
+      }
+      case 'alter_action_drop_column': {
+        const column = findColumn(actionObj.column, actionObj.ifExistsKw);
+        if (column) {
+          dropColumn(table, column.name, context);
+        }
+        break;
+      }
+      case 'alter_action_alter_column': {
+        const column = findColumn(actionObj.column);
+        if (column) {
+          applyAlterColumn(column, actionObj.action as Record<string, unknown>, context);
+        }
+        break;
+      }
+      case 'alter_action_rename_column': {
+        const column = findColumn(actionObj.oldName);
+        const newName = getEntityRef(actionObj.newName)?.name;
+        if (column && newName) {
+          renameColumn(table, column, newName, context);
+        }
+        break;
+      }
+      case 'alter_action_rename': {
+        const newName = getEntityRef(actionObj.newName)?.name;
+        if (newName) {
+          renameTable(table, { schema: table.schema, name: newName }, context);
+        }
+        break;
+      }
+      case 'alter_action_set_schema': {
+        const schema = getEntityRef(actionObj.schema)?.name;
+        if (schema) {
+          renameTable(table, { schema, name: table.name }, context);
+        }
+        break;
+      }
+      case 'alter_action_inherit': {
+        const parentRef = getEntityRef(actionObj.table);
+        if (parentRef) {
+          table.inherits = [...(table.inherits ?? []), qualifyParent(parentRef, context)];
+        }
+        break;
+      }
+      case 'alter_action_no_inherit': {
+        const parentRef = getEntityRef(actionObj.table);
+        const parent = parentRef && qualifyParent(parentRef, context);
+        table.inherits = table.inherits?.filter(ref => ref.name !== parent?.name || ref.schema !== parent?.schema);
+        if (table.inherits?.length === 0) table.inherits = undefined;
+        break;
+      }
+    }
+  });
+
+  qualifyForeignKeys(table, context);
+}
+
+// Apply the ALTER COLUMN actions that change how a column's values are generated
+function applyAlterColumn(column: TableColumn, action: Record<string, unknown>, context: ParseContext) {
+  switch (action?.type) {
+    case 'alter_action_set_default': {
+      column.default = getSourceText(action.expr, context);
+      const sequence = getNextvalSequence(column.default);
+      if (sequence) {
+        column.sequence = sequence;
+        column.autoIncrement = true;
+      }
+      break;
+    }
+    case 'alter_action_drop_default':
+      column.default = undefined;
+      break;
+    case 'alter_action_add_identity':
+      column.identity = getKeywordText(action.whenKw) as TableColumn['identity'];
+      column.sequence = findIdentitySequence(action.range as SourceRange | undefined, context) ?? column.sequence;
+      column.autoIncrement = true;
+      column.nullable = false;
+      break;
+    case 'alter_action_drop_identity':
+      column.identity = undefined;
+      column.autoIncrement = false;
+      break;
+    case 'alter_action_set_data_type':
+      // Links to enums, domains and composite types are made again for the new type once the script is applied
+      Object.assign(column, parseDataType(action.dataType, context), {
+        enumType: undefined,
+        domain: undefined,
+        compositeType: undefined,
+        baseType: undefined
+      });
+      break;
+  }
+}
+
+// DROP TABLE, which also drops the partitions of the table and the foreign keys pointing at it
+function applyDropTable(statement: Record<string, unknown>, context: ParseContext) {
+  const items = ((statement.tables as Record<string, unknown>)?.items || []) as unknown[];
+
+  items.forEach(item => {
+    const tableRef = getEntityRef(item);
+    const table = tableRef && findRelation(context.tables, tableRef, context.searchPath);
+    if (table) {
+      dropTable(table, context);
+    } else if (tableRef && !statement.ifExistsKw) {
+      warnAt(context, item, `Table "${getQualifiedName(tableRef.name, tableRef.schema)}" does not exist`);
+    }
+  });
+}
+
+function dropTable(table: Table, context: ParseContext) {
+  const refersToTable = (ref: EntityRef) => findRelation(context.tables, ref, context.searchPath) === table;
+  const partitions = context.tables.filter(child => child.partitionOf && refersToTable(child.partitionOf));
+
+  context.tables.forEach(other => {
+    other.foreignKeys = other.foreignKeys.filter(foreignKey =>
+      !refersToTable({ schema: foreignKey.references.schema, name: foreignKey.references.table })
+    );
+    other.inherits = other.inherits?.filter(parent => !refersToTable(parent));
+    if (other.inherits?.length === 0) other.inherits = undefined;
+  });
+
+  table.columns.forEach(column => dropInlineEnum(column, context));
+  // The tables array is shared with the diagram, so it's changed in place
+  context.tables.splice(context.tables.indexOf(table), 1);
+  partitions.forEach(partition => dropTable(partition, context));
+}
+
+// MySQL's RENAME TABLE a TO b, c TO d
+function applyRenameTable(statement: Record<string, unknown>, context: ParseContext) {
+  const actions = ((statement.actions as Record<string, unknown>)?.items || []) as Record<string, unknown>[];
+
+  actions.forEach(action => {
+    const fromRef = getEntityRef(action.from);
+    const toRef = getEntityRef(action.to);
+    const table = fromRef && findRelation(context.tables, fromRef, context.searchPath);
+    if (table && toRef) {
+      renameTable(table, { schema: toRef.schema ?? table.schema, name: toRef.name }, context);
+    } else if (fromRef) {
+      warnAt(context, action.from, `Table "${getQualifiedName(fromRef.name, fromRef.schema)}" does not exist`);
+    }
+  });
+}
+
+// Give a table a new name or schema, and point the foreign keys, parents and view dependencies
+// that referred to it at the new one
+function renameTable(table: Table, ref: EntityRef, context: ParseContext) {
+  const refersToTable = (target: EntityRef) => findRelation(context.tables, target, context.searchPath) === table;
+
+  const foreignKeyTargets = context.tables
+    .flatMap(other => other.foreignKeys.map(foreignKey => foreignKey.references))
+    .filter(references => refersToTable({ schema: references.schema, name: references.table }));
+  const parentRefs = context.tables
+    .flatMap(other => [...(other.inherits ?? []), ...(other.partitionOf ? [other.partitionOf] : [])])
+    .filter(refersToTable);
+  const viewDependencies = context.views
+    .flatMap(view => view.dependencies)
+    .filter(dependency => dependency.kind !== 'view' && refersToTable(dependency));
+
+  // Constraints keep the names they were created with
+  pinConstraintNames(table, context);
+  table.name = ref.name;
+  table.schema = ref.schema;
+
+  foreignKeyTargets.forEach(references => {
+    references.table = table.name;
+    references.schema = table.schema;
+  });
+  [...parentRefs, ...viewDependencies].forEach(parentRef => {
+    parentRef.name = table.name;
+    parentRef.schema = table.schema;
+  });
+}
+
+// Rename a column along with every key, index and foreign key that lists it
+function renameColumn(table: Table, column: TableColumn, newName: string, context: ParseContext) {
+  const oldName = column.name;
+  const rename = (names: string[]) => names.map(name => name === oldName ? newName : name);
+
+  pinConstraintNames(table, context);
+  column.name = newName;
+  table.foreignKeys.forEach(foreignKey => {
+    foreignKey.columns = rename(foreignKey.columns);
+  });
+  table.uniqueKeys.forEach(uniqueKey => {
+    uniqueKey.columns = rename(uniqueKey.columns);
+  });
+  table.indexes.forEach(index => {
+    index.columns = rename(index.columns);
+  });
+
+  context.tables
+    .flatMap(other => other.foreignKeys)
+    .filter(foreignKey => findRelation(
+      context.tables,
+      { schema: foreignKey.references.schema, name: foreignKey.references.table },
+      context.searchPath
+    ) === table)
+    .forEach(foreignKey => {
+      foreignKey.references.columns = rename(foreignKey.references.columns);
+    });
+}
+
+// Write down the names PostgreSQL generated for unnamed constraints, which renames don't change
+function pinConstraintNames(table: Table, context: ParseContext) {
+  if (context.dialect !== 'postgresql') return;
+
+  if (table.columns.some(column => column.primaryKey)) {
+    table.primaryKeyName ??= `${table.name}_pkey`;
+  }
+  table.foreignKeys.forEach(foreignKey => {
+    foreignKey.name ??= `${table.name}_${foreignKey.columns.join('_')}_fkey`;
+  });
+  table.uniqueKeys.forEach(uniqueKey => {
+    uniqueKey.name ??= `${table.name}_${uniqueKey.columns.join('_')}_key`;
+  });
+}
+
+// Report a problem at the source range of an AST node, or of a parsed table, column or foreign key
+function warnAt(context: ParseContext, node: unknown, message: string, fixes?: SQLFix[]) {
+  const range = (node as Record<string, unknown>)?.range as SourceRange | undefined;
+  if (!range) return;
+
+  const start = getPosition(context.sql, range[0]);
+  const end = getPosition(context.sql, range[1]);
+  context.errors.push({
+    message,
+    line: start.line,
+    column: start.column,
+    endLine: end.line,
+    endColumn: end.column,
+    severity: 'warning',
+    fixes
+  });
+}
+
+// CREATE/ALTER SEQUENCE ... OWNED BY table.column ties the sequence to that column
+function applySequenceOwner(statement: Record<string, unknown>, context: ParseContext) {
+  const sequenceRef = getEntityRef(statement.name ?? statement.sequence);
+  const options = (statement.options ?? statement.actions ?? []) as Record<string, unknown>[];
+  const owner = options.find(option => option.type === 'sequence_option_owned_by')?.owner as Record<string, unknown>;
+  // OWNED BY NONE comes as a plain identifier
+  if (!sequenceRef || owner?.type !== 'member_expr') return;
+
+  const tableRef = getEntityRef(owner.object);
+  const table = tableRef && findRelation(context.tables, tableRef, context.searchPath);
+  const columnName = getEntityRef(owner.property)?.name;
+  const column = table?.columns.find(col => col.name === columnName);
+  if (column) {
+    column.sequence = getQualifiedName(sequenceRef.name, sequenceRef.schema);
+  }
+}
+
+// Name of the sequence a `nextval('seq'::regclass)` default draws from
+function getNextvalSequence(defaultValue?: string): string | undefined {
+  const sequence = defaultValue?.match(/^nextval\s*\(\s*'((?:[^']|'')+)'/i)?.[1];
+  return sequence && splitQualifiedName(sequence.replace(/''/g, "'")).join('.');
+}
+
+// The SEQUENCE NAME read from an identity column's options, if pg_dump wrote one
+function findIdentitySequence(range: SourceRange | undefined, context: ParseContext): string | undefined {
+  if (!range) return undefined;
+  return Array.from(context.identitySequences)
+    .find(([offset]) => offset >= range[0] && offset <= range[1])?.[1];
+}
+
+// Read INHERITS, PARTITION OF and PARTITION BY, and copy the columns of the parents into the table
+function applyInheritance(table: Table, statement: Record<string, unknown>, context: ParseContext) {
+  let bound: string | undefined;
+
+  ((statement.clauses || []) as Record<string, unknown>[]).forEach(clause => {
+    switch (clause.type) {
+      case 'create_table_inherits_clause': {
+        const tablesExpr = (clause.tables as Record<string, unknown>)?.expr as Record<string, unknown>;
+        table.inherits = ((tablesExpr?.items || []) as unknown[])
+          .map(item => getEntityRef(item))
+          .filter((ref): ref is EntityRef => !!ref)
+          .map(ref => qualifyParent(ref, context));
+        break;
+      }
+      case 'create_table_partition_by_clause':
+        table.partitionBy = `${getKeywordText(clause.strategyKw)} ${getSourceText(clause.columns, context)}`;
+        break;
+      case 'create_table_partition_bound_clause':
+        bound = getSourceText(clause.bound, context);
+        break;
+      case 'create_table_default_partition_clause':
+        bound = 'DEFAULT';
+        break;
+    }
+  });
+
+  const partitionRef = getEntityRef(statement.partitionOf);
+  if (partitionRef) {
+    table.partitionOf = { ...qualifyParent(partitionRef, context), bound: bound ?? '' };
+  }
+
+  // Partitions share every column and key of their parent, inheriting tables only the columns
+  const parents = [...(table.inherits ?? []), ...(table.partitionOf ? [table.partitionOf] : [])];
+  parents.forEach(parentRef => {
+    const parent = findRelation(context.tables, parentRef, context.searchPath);
+    const isPartition = parentRef === table.partitionOf;
+
+    parent?.columns.forEach(parentColumn => {
+      const column: TableColumn = {
+        ...parentColumn,
+        checks: [...parentColumn.checks],
+        primaryKey: isPartition && parentColumn.primaryKey,
+        unique: isPartition && parentColumn.unique,
+        inherited: true
+      };
+      const existing = table.columns.find(col => col.name === column.name);
+      if (existing) {
+        existing.checks.push(...column.checks.filter(check => !existing.checks.includes(check)));
+      } else {
+        table.columns.push(column);
+      }
+    });
+  });
+}
+
+// A column the child table declares again keeps its inherited type and adds its own constraints
+function mergeInheritedColumn(inherited: TableColumn, column: TableColumn) {
+  inherited.nullable &&= column.nullable;
+  inherited.primaryKey ||= column.primaryKey;
+  inherited.unique ||= column.unique;
+  inherited.default = column.default ?? inherited.default;
+  inherited.checks.push(...column.checks);
+  inherited.description = column.description ?? inherited.description;
+  inherited.range = column.range;
+  inherited.inherited = undefined;
+}
+
+// Pin a parent table reference to the schema of the table it resolves to, like foreign key targets
+function qualifyParent(ref: EntityRef, context: ParseContext): EntityRef {
+  const parent = findRelation(context.tables, ref, context.searchPath);
+  return { schema: ref.schema ?? parent?.schema, name: ref.name };
+}
+
+// ALTER TABLE parent ATTACH PARTITION child FOR VALUES ..., and DETACH PARTITION
+function applyPartitionStatement(statement: Record<string, unknown>, context: ParseContext) {
+  const parentRef = toEntityRef(statement.parent as string[]);
+  const partition = findRelation(context.tables, toEntityRef(statement.partition as string[]), context.searchPath);
+  if (!partition) return;
+
+  if (statement.action === 'DETACH') {
+    partition.partitionOf = undefined;
+    return;
+  }
+
+  partition.partitionOf = { ...qualifyParent(parentRef, context), bound: (statement.bound as string) ?? '' };
+}
+
+// Add a `CREATE [UNIQUE] INDEX` to the table it's defined on
+function applyCreateIndex(statement: Record<string, unknown>, context: ParseContext) {
+  const tableRef = getEntityRef(statement.table);
+  const table = tableRef && findRelation(context.tables, tableRef, context.searchPath);
+  if (!table) {
+    if (tableRef) {
+      warnAt(context, statement.table, `Table "${getQualifiedName(tableRef.name, tableRef.schema)}" does not exist`);
+    }
+    return;
+  }
+
+  const nameObj = statement.name as Record<string, unknown>;
+  const methodObj = (statement.using as Record<string, unknown>)?.method as Record<string, unknown>;
+  const columnsExpr = (statement.columns as Record<string, unknown>)?.expr as Record<string, unknown>;
+  const clauses = (statement.clauses || []) as Record<string, unknown>[];
+  const whereClause = clauses.find(clause => clause.type === 'where_clause');
+
+  // Plain columns keep their name, expressions are shown as written
+  const columns = ((columnsExpr?.items || []) as Record<string, unknown>[]).map(item => {
+    const expr = (item.type === 'index_specification' ? item.expr : item) as Record<string, unknown>;
+    return expr?.type === 'identifier' ? expr.name as string : getSourceText(expr, context);
+  });
+
+  table.indexes.push({
+    name: (nameObj?.name || nameObj?.text) as string | undefined,
+    columns,
+    unique: (statement.indexTypeKw as Record<string, unknown>)?.name === 'UNIQUE',
+    method: ((methodObj?.name || methodObj?.text) as string | undefined)?.toLowerCase() ?? 'btree',
+    where: whereClause ? getSourceText(whereClause.expr, context) : undefined,
+    range: statement.range as SourceRange | undefined
+  });
+}
+
+// Drop a named constraint. Unnamed constraints are matched by the names PostgreSQL generates for them.
+function dropConstraint(table: Table, constraintName: string) {
+  if ((table.primaryKeyName ?? `${table.name}_pkey`) === constraintName) {
+    dropPrimaryKey(table);
+  }
+
+  table.foreignKeys = table.foreignKeys.filter(foreignKey =>
+    (foreignKey.name ?? `${table.name}_${foreignKey.columns.join('_')}_fkey`) !== constraintName
+  );
+
+  table.uniqueKeys = table.uniqueKeys.filter(uniqueKey =>
+    (uniqueKey.name ?? `${table.name}_${uniqueKey.columns.join('_')}_key`) !== constraintName
+  );
+  updateUniqueColumns(table);
+}
+
+// Columns are unique when a single-column unique key covers them
+function updateUniqueColumns(table: Table) {
+  table.columns.forEach(column => {
+    column.unique = table.uniqueKeys.some(uniqueKey =>
+      uniqueKey.columns.length === 1 && uniqueKey.columns[0] === column.name
+    );
+  });
+}
+
+function dropPrimaryKey(table: Table) {
+  table.columns.forEach(column => {
+    column.primaryKey = false;
+  });
+  table.primaryKeyName = undefined;
+}
+
+// MySQL enums are declared by the column that uses them and go away with it
+function dropInlineEnum(column: TableColumn, context: ParseContext) {
+  if (!isMySQLFamily(context.dialect) || !column.enumType) return;
+
+  const index = context.enums.findIndex(enumType =>
+    getQualifiedName(enumType.name, enumType.schema) === column.enumType
+  );
+  if (index !== -1) {
+    context.enums.splice(index, 1);
+  }
+}
+
+// Dropping a column also drops every key and index that includes it, and like dropping a table,
+// the foreign keys that point at it
+function dropColumn(table: Table, columnName: string, context: ParseContext) {
+  const column = table.columns.find(col => col.name === columnName);
+  if (!column) return;
+
+  if (column.primaryKey) {
+    dropPrimaryKey(table);
+  }
+
+  table.columns = table.columns.filter(col => col !== column);
+  dropInlineEnum(column, context);
+  table.foreignKeys = table.foreignKeys.filter(foreignKey => !foreignKey.columns.includes(columnName));
+  table.uniqueKeys = table.uniqueKeys.filter(uniqueKey => !uniqueKey.columns.includes(columnName));
+  table.indexes = table.indexes.filter(index => !index.columns.includes(columnName));
+  updateUniqueColumns(table);
+
+  context.tables.forEach(other => {
+    other.foreignKeys = other.foreignKeys.filter(foreignKey =>
+      !foreignKey.references.columns.includes(columnName) || findRelation(
+        context.tables,
+        { schema: foreignKey.references.schema, name: foreignKey.references.table },
+        context.searchPath
+      ) !== table
+    );
+  });
+}
+
+// Read a `CREATE [MATERIALIZED] VIEW name [(columns)] AS query`
+function parseCreateView(statement: Record<string, unknown>, context: ParseContext): View | null {
+  const viewRef = getEntityRef(statement.name);
+  if (!viewRef) return null;
+
+  const clauses = (statement.clauses || []) as Record<string, unknown>[];
+  const query = clauses.find(clause => clause.type === 'as_clause')?.expr;
+  const kinds = (statement.kinds || []) as Record<string, unknown>[];
+
+  // An explicit column list wins over the names the query produces
+  const columnListExpr = (statement.columns as Record<string, unknown>)?.expr as Record<string, unknown>;
+  const columnList = ((columnListExpr?.items || []) as Record<string, unknown>[])
+    .map(column => getEntityRef(column.name)?.name)
+    .filter((name): name is string => Boolean(name));
+
+  const view: View = {
+    name: viewRef.name,
+    schema: viewRef.schema ?? context.searchPath[0],
+    materialized: kinds.some(kind => (kind.kindKw as Record<string, unknown>)?.name === 'MATERIALIZED'),
+    columns: columnList.length > 0 ? columnList : getQueryColumns(query, context),
+    dependencies: collectQueryDependencies(query),
+    range: statement.range as SourceRange | undefined
+  };
+
+  resolveViewDependencies(view, context);
+  return view;
+}
+
+// Names of the columns a query outputs, taken from the first SELECT of a UNION
+function getQueryColumns(query: unknown, context: ParseContext): string[] {
+  const queryObj = query as Record<string, unknown>;
+  if (!queryObj) return [];
+
+  if (queryObj.type === 'compound_select_stmt') return getQueryColumns(queryObj.left, context);
+  if (queryObj.type === 'paren_expr') return getQueryColumns(queryObj.expr, context);
+
+  const clauses = (queryObj.clauses || []) as Record<string, unknown>[];
+  const selectClause = clauses.find(clause => clause.type === 'select_clause');
+  const items = ((selectClause?.columns as Record<string, unknown>)?.items || []) as Record<string, unknown>[];
+
+  return items.map(item => {
+    if (item.type === 'alias') return getEntityRef(item.alias)?.name ?? getSourceText(item, context);
+    if (item.type === 'all_columns') return '*';
+    if (item.type === 'identifier') return item.name as string;
+    if (item.type === 'member_expr' && (item.property as Record<string, unknown>)?.type === 'identifier') {
+      return (item.property as Record<string, unknown>).name as string;
+    }
+    return getSourceText(item, context);
+  });
+}
+
+// Tables and views a query reads from in any FROM/JOIN, including subqueries, minus its own CTEs
+function collectQueryDependencies(query: unknown): ViewDependency[] {
+  const dependencies: ViewDependency[] = [];
+  const cteNames = new Set<string>();
+
+  const addRelation = (expr: unknown) => {
+    const exprObj = expr as Record<string, unknown>;
+    if (!exprObj) return;
+
+    switch (exprObj.type) {
+      case 'join_expr':
+        addRelation(exprObj.left);
+        addRelation(exprObj.right);
+        break;
+      case 'alias':
+        addRelation(exprObj.expr);
+        break;
+      case 'identifier':
+      case 'member_expr':
+      case 'table_without_inheritance':
+      case 'table_with_inheritance': {
+        const ref = getEntityRef(exprObj);
+        if (ref && !dependencies.some(dep => dep.name === ref.name && dep.schema === ref.schema)) {
+          dependencies.push({ schema: ref.schema, name: ref.name });
+        }
+        break;
+      }
+      // Subqueries and table functions are walked by visit() below
+    }
+  };
+
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+
+    const nodeObj = node as Record<string, unknown>;
+    if (nodeObj.type === 'common_table_expr') {
+      const cteRef = getEntityRef(nodeObj.table);
+      if (cteRef) cteNames.add(cteRef.name);
+    }
+    if (nodeObj.type === 'from_clause') {
+      addRelation(nodeObj.expr);
+    }
+
+    Object.values(nodeObj).forEach(visit);
+  };
+
+  visit(query);
+
+  return dependencies.filter(dep => dep.schema || !cteNames.has(dep.name));
+}
+
+// Pin view dependencies to the table or view the current search path resolves them to
+function resolveViewDependencies(view: View, context: ParseContext) {
+  view.dependencies.forEach(dependency => {
+    if (dependency.kind) return;
+
+    const ref = { schema: dependency.schema, name: dependency.name };
+    const table = findRelation(context.tables, ref, context.searchPath);
+    const otherView = table ? undefined : findRelation(context.views.filter(v => v !== view), ref, context.searchPath);
+    const relation = table ?? otherView;
+
+    if (relation) {
+      dependency.schema = relation.schema;
+      dependency.kind = table ? 'table' : 'view';
+    }
+  });
+}
+
+// Read a `CREATE TYPE name AS ENUM (...)`; other kinds of types are ignored
+function parseCreateEnum(statement: Record<string, unknown>, context: ParseContext): EnumType | null {
+  const definition = statement.definition as Record<string, unknown>;
+  if (definition?.type !== 'enum_type_definition') return null;
+
+  const typeRef = getEntityRef(statement.name);
+  if (!typeRef) return null;
+
+  const valuesObj = (definition.values as Record<string, unknown>)?.expr as Record<string, unknown>;
+  const values = ((valuesObj?.items || []) as Record<string, unknown>[])
+    .map(item => item.value as string);
+
+  return {
+    name: typeRef.name,
+    schema: typeRef.schema ?? context.searchPath[0],
+    values,
+    range: statement.range as SourceRange | undefined
+  };
+}
+
+// Apply `ALTER TYPE ... ADD VALUE` and `RENAME VALUE` to an enum created earlier
+function applyAlterEnum(statement: Record<string, unknown>, context: ParseContext) {
+  const typeRef = getEntityRef(statement.name);
+  const enumType = typeRef && findType(context.enums, typeRef, context.searchPath);
+  if (!enumType) return;
+
+  const actionsObj = statement.actions as Record<string, unknown>;
+  ((actionsObj?.items || []) as Record<string, unknown>[]).forEach(action => {
+    if (action.type === 'alter_action_add_enum_value') {
+      const value = (action.value as Record<string, unknown>)?.value as string;
+      if (enumType.values.includes(value)) return;
+
+      const position = action.position as Record<string, unknown>;
+      const anchor = (position?.value as Record<string, unknown>)?.value as string;
+      const anchorIndex = enumType.values.indexOf(anchor);
+
+      if (!position || anchorIndex === -1) {
+        enumType.values.push(value);
+      } else {
+        const before = (position.positionKw as Record<string, unknown>)?.name === 'BEFORE';
+        enumType.values.splice(before ? anchorIndex : anchorIndex + 1, 0, value);
+      }
+    }
+
+    if (action.type === 'alter_action_rename_enum_value') {
+      const oldValue = (action.oldValue as Record<string, unknown>)?.value as string;
+      const newValue = (action.newValue as Record<string, unknown>)?.value as string;
+      enumType.values = enumType.values.map(value => value === oldValue ? newValue : value);
+    }
+  });
+}
+
+// Find an enum, domain or composite type by type name. Unquoted type names come back upper-cased,
+// so match case-insensitively.
+function findType<T extends EntityRef>(types: T[], ref: EntityRef, searchPath: string[]): T | undefined {
+  const matches = types.filter(type => type.name.toLowerCase() === ref.name.toLowerCase());
+  if (ref.schema) {
+    return matches.find(type => type.schema === ref.schema);
+  }
+
+  for (const searchSchema of searchPath) {
+    const type = matches.find(t => t.schema === searchSchema);
+    if (type) return type;
+  }
+
+  return matches[0];
+}
+
+// Read `CREATE DOMAIN name AS type` and the constraints every value of the domain must meet
+function parseCreateDomain(statement: Record<string, unknown>, context: ParseContext): DomainType | null {
+  const typeRef = getEntityRef(statement.name);
+  if (!typeRef) return null;
+
+  const domain: DomainType = {
+    name: typeRef.name,
+    schema: typeRef.schema ?? context.searchPath[0],
+    baseType: parseDataType(statement.dataType, context),
+    nullable: true,
+    checks: [],
+    range: statement.range as SourceRange | undefined
+  };
+
+  ((statement.constraints || []) as Record<string, unknown>[]).forEach(constraint => {
+    const constraintObj = unwrapConstraint(constraint);
+    if (constraintObj.type === 'constraint_not_null') domain.nullable = false;
+    if (constraintObj.type === 'constraint_default') domain.default = getSourceText(constraintObj.expr, context);
+    if (constraintObj.type === 'constraint_check') domain.checks.push(getCheckText(constraintObj, context));
+  });
+
+  return domain;
+}
+
+// Read `CREATE TYPE name AS (attribute type, ...)`
+function parseCreateCompositeType(statement: Record<string, unknown>, context: ParseContext): CompositeType | null {
+  const definition = statement.definition as Record<string, unknown>;
+  if (definition?.type !== 'composite_type_definition') return null;
+
+  const typeRef = getEntityRef(statement.name);
+  if (!typeRef) return null;
+
+  const columnsExpr = (definition.columns as Record<string, unknown>)?.expr as Record<string, unknown>;
+  const attributes = ((columnsExpr?.items || []) as Record<string, unknown>[])
+    .map(item => {
+      const nameObj = item.name as Record<string, unknown>;
+      return { name: (nameObj?.name || nameObj?.text) as string, ...parseDataType(item.dataType, context) };
+    })
+    .filter(attribute => attribute.name);
+
+  return {
+    name: typeRef.name,
+    schema: typeRef.schema ?? context.searchPath[0],
+    attributes,
+    range: statement.range as SourceRange | undefined
+  };
+}
+
+// Resolve a domain-typed column to the domain's base type and apply the domain's constraints to it.
+// Domains over other domains are followed down to the first type that isn't one.
+function applyDomain(column: TableColumn, context: ParseContext) {
+  let domain = findType(context.domains, { name: column.type }, context.searchPath);
+  if (!domain) return;
+
+  column.domain = getQualifiedName(domain.name, domain.schema);
+  const visited = new Set<DomainType>();
+  while (domain && !visited.has(domain)) {
+    visited.add(domain);
+    column.nullable &&= domain.nullable;
+    column.default ??= domain.default;
+    column.checks.push(...domain.checks.filter(check => !column.checks.includes(check)));
+    column.baseType = formatColumnType({ ...domain.baseType, isArray: false });
+    domain = findType(context.domains, { name: domain.baseType.type }, context.searchPath);
+  }
+}
+
+// Handle pg_dump's `SELECT pg_catalog.set_config('search_path', 'a, b', false)`
+function applySearchPathConfig(statement: Record<string, unknown>, context: ParseContext) {
+  const clauses = (statement.clauses || []) as Record<string, unknown>[];
+  const selectColumns = (clauses[0]?.columns as Record<string, unknown>)?.items as unknown[];
+  const funcCall = selectColumns?.[0] as Record<string, unknown>;
+  if (funcCall?.type !== 'func_call' || getEntityRef(funcCall.name)?.name !== 'set_config') return;
+
+  const argsObj = (funcCall.args as Record<string, unknown>)?.expr as Record<string, unknown>;
+  const args = (argsObj?.args as Record<string, unknown>)?.items as Record<string, unknown>[];
+  if (args?.[0]?.value !== 'search_path' || typeof args[1]?.value !== 'string') return;
+
+  context.searchPath = parseSearchPath(args[1].value);
+}
+
+// Split a search_path value like `"$user", public` into schema names
+function parseSearchPath(value: string): string[] {
+  return value
+    .split(',')
+    .map(schema => schema.trim().replace(/^(["'])(.*)\1$/, '$2'))
+    .filter(schema => schema && schema !== '$user');
+}
+
+// Pin unqualified foreign key targets to the schema the current search path resolves them to.
+// Targets that don't exist yet are left unqualified and resolved once the whole script is applied.
+function qualifyForeignKeys(table: Table, context: ParseContext) {
+  table.foreignKeys.forEach(foreignKey => {
+    if (foreignKey.references.schema) return;
+
+    const referencedTable = findRelation(
+      context.tables,
+      { name: foreignKey.references.table },
+      context.searchPath
+    );
+    foreignKey.references.schema = referencedTable?.schema;
+  });
+}
+
+// Fill in the target columns of foreign keys that only named the referenced table. Tables that
+// aren't in the script or have no primary key keep the old guess of an `id` column.
+function resolveForeignKeyTargets(table: Table, context: ParseContext) {
+  table.foreignKeys
+    .filter(foreignKey => foreignKey.references.columns.length === 0)
+    .forEach(foreignKey => {
+      const referencedTable = findRelation(
+        context.tables,
+        { schema: foreignKey.references.schema, name: foreignKey.references.table },
+        context.searchPath
+      );
+      const primaryKey = referencedTable?.columns
+        .filter(column => column.primaryKey)
+        .map(column => column.name) ?? [];
+
+      foreignKey.references.columns = primaryKey.length === foreignKey.columns.length
+        ? primaryKey
+        : foreignKey.columns.map(() => 'id');
+    });
+}
+
+// Warn about foreign keys the database would reject: unknown tables or columns, targets that aren't
+// a primary key or unique, and column types that don't match
+function validateForeignKeys(table: Table, context: ParseContext) {
+  table.foreignKeys.forEach(foreignKey => {
+    const { references } = foreignKey;
+    const referencedName = getQualifiedName(references.table, references.schema);
+    const referencedTable = findRelation(
+      context.tables,
+      { schema: references.schema, name: references.table },
+      context.searchPath
+    );
+    if (!referencedTable) {
+      warnAt(
+        context,
+        foreignKey,
+        `Foreign key references unknown table "${referencedName}"`,
+        table.range && [getCreateReferencedTableFix(table, foreignKey, table.range[0], context.dialect)]
+      );
+      return;
+    }
+
+    const localColumns = foreignKey.columns.map(name => table.columns.find(column => column.name === name));
+    const targetColumns = references.columns.map(name => referencedTable.columns.find(column => column.name === name));
+    const missingLocal = foreignKey.columns.filter((_, i) => !localColumns[i]);
+    const missingTarget = references.columns.filter((_, i) => !targetColumns[i]);
+
+    if (missingLocal.length > 0) {
+      warnAt(context, foreignKey, `Column "${missingLocal.join('", "')}" does not exist in table "${table.name}"`);
+    }
+    if (missingTarget.length > 0) {
+      warnAt(context, foreignKey, `Column "${missingTarget.join('", "')}" does not exist in table "${referencedName}"`);
+      return;
+    }
+
+    if (!isUniqueColumnSet(referencedTable, references.columns)) {
+      warnAt(
+        context,
+        foreignKey,
+        `Foreign key references "${referencedName}" (${references.columns.join(', ')}), which isn't a primary key or unique`
+      );
+    }
+
+    // SQLite doesn't enforce column types, so any pairing works there
+    if (context.dialect === 'sqlite') return;
+
+    localColumns.forEach((column, i) => {
+      const target = targetColumns[i];
+      if (!column || !target || getComparableType(column) === getComparableType(target)) return;
+
+      warnAt(
+        context,
+        foreignKey,
+        `Column "${column.name}" (${formatColumnType(column)}) doesn't match the type of ` +
+          `"${referencedName}"."${target.name}" (${formatColumnType(target)})`
+      );
+    });
+  });
+}
+
+// Create the table a foreign key points at right before the table that declares the key, keyed by
+// the referenced columns with the types of the local ones
+function getCreateReferencedTableFix(
+  table: Table,
+  foreignKey: ForeignKey,
+  offset: number,
+  dialect: SQLDialect
+): SQLFix {
+  const { references } = foreignKey;
+  // Unknown targets keep the schema only when the reference wrote one
+  const tableName = quoteQualifiedName(references.table, references.schema, dialect);
+  const columnNames = references.columns.map(name => quoteIdentifier(name, dialect));
+  const columns = columnNames.map((name, i) => {
+    const localColumn = table.columns.find(column => column.name === foreignKey.columns[i]);
+    const type = localColumn ? formatColumnType(localColumn) : 'INTEGER';
+    return `    ${name} ${type}${references.columns.length === 1 ? ' PRIMARY KEY' : ''}`;
+  });
+  if (references.columns.length > 1) {
+    columns.push(`    PRIMARY KEY (${columnNames.join(', ')})`);
+  }
+
+  return {
+    title: `Create table "${getQualifiedName(references.table, references.schema)}"`,
+    edits: [{ range: [offset, offset], text: `CREATE TABLE ${tableName} (\n${columns.join(',\n')}\n);\n\n` }]
+  };
+}
+
+// Whether the columns, in any order, are the table's primary key or covered by a unique key or index
+function isUniqueColumnSet(table: Table, columnNames: string[]): boolean {
+  const sameColumns = (columns: string[]) =>
+    columns.length === columnNames.length && columns.every(name => columnNames.includes(name));
+  const primaryKey = table.columns.filter(column => column.primaryKey).map(column => column.name);
+
+  return sameColumns(primaryKey)
+    || table.uniqueKeys.some(uniqueKey => sameColumns(uniqueKey.columns))
+    || table.indexes.some(index => index.unique && sameColumns(index.columns))
+    || (columnNames.length === 1 && table.columns.some(column => column.name === columnNames[0] && column.unique));
+}
+
+// Spellings of the same stored type, so that `int` matches `serial` and `varchar(50)` matches `text`
+const TYPE_ALIASES: Record<string, string> = {
+  int: 'integer',
+  int4: 'integer',
+  serial: 'integer',
+  serial4: 'integer',
+  int8: 'bigint',
+  bigserial: 'bigint',
+  serial8: 'bigint',
+  int2: 'smallint',
+  smallserial: 'smallint',
+  serial2: 'smallint',
+  varchar: 'text',
+  'character varying': 'text',
+  char: 'text',
+  character: 'text',
+  bpchar: 'text',
+  decimal: 'numeric',
+  bool: 'boolean',
+  float8: 'double precision',
+  float4: 'real',
+  timestamptz: 'timestamp with time zone'
+};
+
+function getComparableType(column: TableColumn): string {
+  const type = (column.baseType ?? column.type).toLowerCase();
+  return (TYPE_ALIASES[type] ?? type) + (column.isArray ? '[]' : '');
+}
+
+// A single-column primary key declared exactly as INTEGER aliases the rowid, unless the table has none
+function markRowidAlias(table: Table) {
+  const primaryKey = table.columns.filter(column => column.primaryKey);
+  if (table.withoutRowid || primaryKey.length !== 1 || primaryKey[0].type.toUpperCase() !== 'INTEGER') return;
+
+  primaryKey[0].rowidAlias = true;
+}
+
+// SQLite's rules for the affinity of a declared type, checked in this order
+function getTypeAffinity(type: string): TypeAffinity {
+  const upperType = type.toUpperCase();
+  if (upperType.includes('INT')) return 'INTEGER';
+  if (/CHAR|CLOB|TEXT/.test(upperType)) return 'TEXT';
+  if (!upperType || upperType.includes('BLOB')) return 'BLOB';
+  if (/REAL|FLOA|DOUB/.test(upperType)) return 'REAL';
+  return 'NUMERIC';
+}
+
+// Find a table or view by name, resolving unqualified names through the search path
+function findRelation<T extends Table | View>(relations: T[], ref: EntityRef, searchPath: string[]): T | undefined {
+  if (ref.schema) {
+    return relations.find(relation => relation.name === ref.name && relation.schema === ref.schema);
+  }
+
+  for (const schema of searchPath) {
+    const relation = relations.find(r => r.name === ref.name && r.schema === schema);
+    if (relation) return relation;
+  }
+
+  return relations.find(relation => relation.name === ref.name);
+}
+
+// Read the schema and table name out of a reference like `users`, `public.users` or `ONLY users`
+function getEntityRef(entity: unknown): EntityRef | undefined {
+  let entityObj = entity as Record<string, unknown>;
+
+  // Unwrap ONLY / inheritance / INDEXED BY wrappers around the name itself
+  while (entityObj?.table && typeof entityObj.table === 'object') {
+    entityObj = entityObj.table as Record<string, unknown>;
+  }
+
+  let schema: string | undefined;
+  if (entityObj?.type === 'member_expr') {
+    // For db.schema.table the schema is the innermost property of the object
+    let schemaObj = entityObj.object as Record<string, unknown>;
+    if (schemaObj?.type === 'member_expr') {
+      schemaObj = schemaObj.property as Record<string, unknown>;
+    }
+    schema = (schemaObj?.name || schemaObj?.text) as string | undefined;
+    entityObj = entityObj.property as Record<string, unknown>;
+  }
+
+  const name = (entityObj?.name || entityObj?.text) as string | undefined;
+  return name ? { schema, name } : undefined;
+}
+
+// Parse the whole script at once, or statement by statement when that fails so that
+// one broken statement doesn't hide the rest of the schema
+function parseStatements(sql: string, context: ParseContext, errors: SQLError[]): Record<string, unknown>[] {
+  try {
+    const ast = parse(sql, getParseOptions(context.dialect));
+    context.comments = collectComments(ast);
+    return ast.statements as unknown as Record<string, unknown>[];
+  } catch {
+    // Fall back to parsing each statement on its own below
+  }
+
+  const statements: Record<string, unknown>[] = [];
+  const pending = splitStatements(sql, context.dialect);
+
+  while (pending.length > 0) {
+    const [start, end] = pending.shift()!;
+    const text = sql.slice(start, end);
+
+    try {
+      const ast = parse(text, getParseOptions(context.dialect));
+      shiftRanges(ast, start);
+      context.comments.push(...collectComments(ast));
+      statements.push(...(ast.statements as unknown as Record<string, unknown>[]));
+      continue;
+    } catch (error) {
+      // Statements the parser doesn't support are recognized by how they start, after any comments
+      const code = sql.slice(skipLeadingComments(sql, start, end), end);
+
+      const searchPathMatch = code.match(/^\s*SET\s+(?:SESSION\s+|LOCAL\s+)?search_path\s*(?:TO|=)\s*([\s\S]*?)\s*;?\s*$/i);
+      if (searchPathMatch) {
+        statements.push({ type: SET_SEARCH_PATH_STMT, value: searchPathMatch[1], range: [start, end] });
+        continue;
+      }
+
+      // Other session settings, like the SET statement_timeout / client_encoding / ... lines pg_dump
+      // starts with, and set_config() calls don't change the schema
+      if (/^\s*(?:SET|RESET)\b|^\s*SELECT\s+(?:pg_catalog\s*\.\s*)?set_config\s*\(/i.test(code)) {
+        continue;
+      }
+
+      const partitionMatch = code.match(
+        /^\s*ALTER\s+TABLE\s+(?:IF\s+EXISTS\s+)?(?:ONLY\s+)?([\s\S]+?)\s+(ATTACH|DETACH)\s+PARTITION\s+([\s\S]+?)(?:\s+FOR\s+VALUES\s+([\s\S]*?)|\s+(DEFAULT|CONCURRENTLY|FINALIZE))?\s*;?\s*$/i
+      );
+      if (partitionMatch) {
+        const [, parent, action, partition, bound, keyword] = partitionMatch;
+        statements.push({
+          type: PARTITION_STMT,
+          action: action.toUpperCase(),
+          parent: splitQualifiedName(parent),
+          partition: splitQualifiedName(partition),
+          bound: bound ?? keyword?.toUpperCase(),
+          range: [start, end]
+        });
+        continue;
+      }
+
+      const message = (error as { message?: string }).message || 'SQL parsing failed';
+      const { line, column, cleanMessage } = parseErrorLocation(message);
+      const errorOffset = start + getOffset(text, line, column);
+
+      // A statement missing its semicolon runs into the next one, which then starts where the parser gave up
+      const nextStatement = errorOffset > start &&
+        /^\s*$/.test(sql.slice(sql.lastIndexOf('\n', errorOffset - 1) + 1, errorOffset)) &&
+        /^(CREATE|ALTER|DROP|COMMENT|SET|SELECT|INSERT|UPDATE|DELETE|GRANT|REVOKE|BEGIN|COMMIT)\b/i
+          .test(sql.slice(errorOffset, errorOffset + 10));
+      const statementEnd = nextStatement ? errorOffset : end;
+      if (nextStatement) {
+        pending.unshift([errorOffset, end]);
+      }
+
+      const position = getPosition(sql, errorOffset);
+      errors.push({
+        message: `${cleanMessage} (line ${position.line}, column ${position.column})`,
+        ...getStatementRange(sql, start, statementEnd),
+        severity: 'error'
+      });
+    }
+  }
+
+  context.comments.sort((a, b) => a.range[0] - b.range[0]);
+  return statements;
+}
+
+// Same-length copy of a script with the contents of strings, quoted identifiers, comments and
+// dollar-quoted bodies blanked out, so text patterns only ever match actual SQL code
+export function maskLiterals(sql: string, dialect: SQLDialect): string {
+  const isMySQL = isMySQLFamily(dialect);
+  // SQLite accepts MySQL's backtick-quoted identifiers too
+  const backticks = dialect !== 'postgresql';
+  const blank = (from: number, to: number) => sql.slice(from, to).replace(/[^\n]/g, ' ');
+  let masked = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const start = i;
+
+    if (sql.startsWith('--', i) || sql.startsWith('/*', i) || (isMySQL && char === '#')) {
+      i = skipComment(sql, i);
+      masked += blank(start, i);
+    } else if (char === "'" || char === '"' || (backticks && char === '`')) {
+      // Quotes are escaped by doubling them. MySQL strings and PostgreSQL's E'...' also allow backslash escapes
+      const backslashEscapes = char !== '`' &&
+        (isMySQL || (char === "'" && /[eE]/.test(sql[i - 1] ?? '') && !/\w/.test(sql[i - 2] ?? '')));
+      i++;
+      while (i < sql.length && (sql[i] !== char || sql[i + 1] === char)) {
+        i += (backslashEscapes && sql[i] === '\\') || sql[i] === char ? 2 : 1;
+      }
+      i = Math.min(i + 1, sql.length);
+      // Keep the quotes so a masked identifier still reads as one
+      masked += char + blank(start + 1, i - 1) + (i - 1 > start ? sql[i - 1] : '');
+    } else if (dialect === 'postgresql' && char === '$' && !/\w/.test(sql[i - 1] ?? '')) {
+      DOLLAR_QUOTE_TAG.lastIndex = i;
+      const tag = DOLLAR_QUOTE_TAG.exec(sql)?.[0];
+      const bodyEnd = tag ? sql.indexOf(tag, i + tag.length) : -1;
+      i = !tag ? i + 1 : bodyEnd === -1 ? sql.length : bodyEnd + tag.length;
+      masked += tag ? blank(start, i) : char;
+    } else {
+      masked += char;
+      i++;
+    }
+  }
+
+  return masked;
+}
+
+// Split a script into statement ranges at the semicolons outside of strings, quoted identifiers,
+// comments and dollar-quoted function bodies
+function splitStatements(sql: string, dialect: SQLDialect): Array<[number, number]> {
+  const masked = maskLiterals(sql, dialect);
+  const ranges: Array<[number, number]> = [];
+  let start = 0;
+
+  for (let i = masked.indexOf(';'); i !== -1; i = masked.indexOf(';', start)) {
+    ranges.push([start, i + 1]);
+    start = i + 1;
+  }
+
+  if (sql.slice(start).trim()) {
+    ranges.push([start, sql.length]);
+  }
+  return ranges;
+}
+
+// Index right after the comment starting at `start`
+function skipComment(sql: string, start: number): number {
+  if (sql.startsWith('--', start) || sql[start] === '#') {
+    const lineEnd = sql.indexOf('\n', start);
+    return lineEnd === -1 ? sql.length : lineEnd + 1;
+  }
+
+  // Block comments nest in PostgreSQL
+  let i = start;
+  let depth = 0;
+  do {
+    if (sql.startsWith('/*', i)) {
+      depth++;
+      i += 2;
+    } else if (sql.startsWith('*/', i)) {
+      depth--;
+      i += 2;
+    } else {
+      i++;
+    }
+  } while (depth > 0 && i < sql.length);
+  return i;
+}
+
+// Move the source ranges of a statement parsed on its own to where it sits in the script
+function shiftRanges(node: unknown, offset: number) {
+  if (Array.isArray(node)) {
+    node.forEach(child => shiftRanges(child, offset));
+  } else if (node && typeof node === 'object') {
+    const nodeObj = node as Record<string, unknown>;
+    const range = nodeObj.range as [number, number] | undefined;
+    if (range) {
+      nodeObj.range = [range[0] + offset, range[1] + offset];
+    }
+    Object.entries(nodeObj)
+      .filter(([key]) => key !== 'range')
+      .forEach(([, child]) => shiftRanges(child, offset));
+  }
+}
+
+// Line and column (both 1-based) of an offset into the script
+export function getPosition(sql: string, offset: number): { line: number; column: number } {
+  const before = sql.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return { line: before.split('\n').length, column: offset - lineStart + 1 };
+}
+
+// Offset of a 1-based line and column in a piece of text
+function getOffset(text: string, line: number, column: number): number {
+  const lines = text.split('\n').slice(0, line - 1);
+  return Math.min(text.length, lines.reduce((offset, lineText) => offset + lineText.length + 1, 0) + column - 1);
+}
+
+// Offset of the first keyword of a statement, past the whitespace and comments in front of it
+function skipLeadingComments(sql: string, start: number, end: number): number {
+  let offset = start;
+  while (offset < end) {
+    if (/\s/.test(sql[offset])) {
+      offset++;
+    } else if (sql.startsWith('--', offset) || sql.startsWith('/*', offset)) {
+      offset = skipComment(sql, offset);
+    } else {
+      break;
+    }
+  }
+  return offset;
+}
+
+// Editor range of a statement, without the whitespace and comments around it
+function getStatementRange(
+  sql: string,
+  start: number,
+  end: number
+): Pick<SQLError, 'line' | 'column' | 'endLine' | 'endColumn'> {
+  const statementStart = skipLeadingComments(sql, start, end);
+  const statementEnd = start + sql.slice(start, end).trimEnd().length;
+
+  const from = getPosition(sql, statementStart);
+  const to = getPosition(sql, Math.max(statementStart, statementEnd));
+  return { line: from.line, column: from.column, endLine: to.line, endColumn: to.column };
+}
+
+// Blank out the MySQL syntax the parser can't read (named inline keys, UNSIGNED, space separated
+// table options) and record what it said, keeping the offsets of everything else intact
+function extractMySQLExtensions(sql: string, extensions: MySQLExtensions): string {
+  const masked = maskLiterals(sql, 'mysql');
+  const chars = sql.split('');
+  const blankOut = (from: number, to: number) => {
+    for (let i = from; i < to; i++) {
+      if (chars[i] !== '\n') chars[i] = ' ';
+    }
+  };
+  // Read a pattern at a given offset of the masked script
+  const matchAt = (pattern: RegExp, offset: number) => {
+    const sticky = new RegExp(pattern.source, 'iy');
+    sticky.lastIndex = offset;
+    return sticky.exec(masked);
   };
+  const unquote = (name: string) => name.replace(/^`(.*)`$/, '$1').replace(/``/g, '`');
+
+  // `[UNIQUE|FULLTEXT|SPATIAL] KEY name [USING method] (columns) [USING method]`, the parser only takes `KEY (columns)`
+  const keyRegex = /((?:[(,]|\bADD\b)\s*(?:CONSTRAINT\s+(?:`[^`]*`|\w+)\s+)?)(?:(?:UNIQUE|FULLTEXT|SPATIAL)\s+)?(?:KEY|INDEX)\b/gi;
+  for (let match = keyRegex.exec(masked); match; match = keyRegex.exec(masked)) {
+    const keywordStart = match.index + match[1].length;
+    const key: { name?: string; method?: string } = {};
+    let offset = match.index + match[0].length;
+
+    const nameMatch = matchAt(/\s+(?!USING\b)(`[^`]*`|\w+)/, offset);
+    if (nameMatch) {
+      key.name = unquote(sql.slice(offset, offset + nameMatch[0].length).trim());
+      blankOut(offset, offset + nameMatch[0].length);
+      offset += nameMatch[0].length;
+    }
+
+    const usingMatch = matchAt(/\s+USING\s+(\w+)/, offset);
+    if (usingMatch) {
+      key.method = usingMatch[1].toLowerCase();
+      blankOut(offset, offset + usingMatch[0].length);
+      offset += usingMatch[0].length;
+    }
+
+    // Skip the column list, then drop the index options that may follow it
+    const columnsStart = masked.indexOf('(', offset);
+    let depth = 0;
+    let columnsEnd = columnsStart;
+    do {
+      if (masked[columnsEnd] === '(') depth++;
+      if (masked[columnsEnd] === ')') depth--;
+      columnsEnd++;
+    } while (depth > 0 && columnsEnd < masked.length);
+
+    const optionsMatch = matchAt(
+      /(?:\s*(?:USING\s+\w+|COMMENT\s+'[^']*'|KEY_BLOCK_SIZE\s*=?\s*\w+|VISIBLE|INVISIBLE|WITH\s+PARSER\s+\w+))+/,
+      columnsEnd
+    );
+    if (optionsMatch) {
+      key.method = optionsMatch[0].match(/USING\s+(\w+)/i)?.[1].toLowerCase() ?? key.method;
+      blankOut(columnsEnd, columnsEnd + optionsMatch[0].length);
+    }
+
+    extensions.keys.set(keywordStart, key);
+  }
+
+  // UNSIGNED and ZEROFILL after a column type, but not in CAST(x AS UNSIGNED)
+  const modifierRegex = /([\w)])(\s+)(UNSIGNED|ZEROFILL)\b/gi;
+  for (let match = modifierRegex.exec(masked); match; match = modifierRegex.exec(masked)) {
+    if (/\bAS$/i.test(masked.slice(Math.max(0, match.index - 2), match.index + 1))) continue;
+
+    const modifierStart = match.index + match[1].length + match[2].length;
+    extensions.typeModifiers.set(modifierStart, match[3]);
+    blankOut(modifierStart, modifierStart + match[3].length);
+    // Resume on the modifier's last letter, which stands before the ZEROFILL of UNSIGNED ZEROFILL
+    modifierRegex.lastIndex = modifierStart + match[3].length - 1;
+  }
+
+  // Table options after the column list, like `) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='...'`
+  splitStatements(sql, 'mysql').forEach(([start, end]) => {
+    const text = masked.slice(start, end);
+    if (!/^\s*CREATE\s+(?:TEMPORARY\s+)?TABLE\b/i.test(text)) return;
+
+    let depth = 0;
+    let columnsEnd = text.indexOf('(');
+    if (columnsEnd === -1) return;
+    do {
+      if (text[columnsEnd] === '(') depth++;
+      if (text[columnsEnd] === ')') depth--;
+      columnsEnd++;
+    } while (depth > 0 && columnsEnd < text.length);
+
+    const tail = text.slice(columnsEnd).replace(/;\s*$/, '');
+    if (!tail.trim() || /^\s*(AS|SELECT|LIKE)\b/i.test(tail)) return;
+
+    const options: Record<string, string> = {};
+    const tailStart = start + columnsEnd;
+    const optionRegex = /(?:DEFAULT\s+)?(CHARACTER\s+SET|\w+)\s*=?\s*('[^']*'|[^\s,=]+)/gi;
+    for (let match = optionRegex.exec(tail); match; match = optionRegex.exec(tail)) {
+      const name = match[1].toUpperCase().replace(/^CHARACTER\s+SET$/, 'CHARSET');
+      const valueStart = tailStart + match.index + match[0].length - match[2].length;
+      options[name] = sql.slice(valueStart, tailStart + match.index + match[0].length).replace(/^'(.*)'$/, '$1');
+    }
+
+    extensions.tableOptions.set(start + text.search(/\S/), options);
+    blankOut(tailStart, tailStart + tail.length);
+  });
+
+  return chars.join('');
 }
 
-export interface Table {
-  name: string;
-  columns: TableColumn[];
+// Find the COMMENT ON statements of a script and blank them out so the rest of it still parses.
+// Only whole statements are matched, on the masked script so strings and comments can't match.
+function extractCommentStatements(sql: string, dialect: SQLDialect): { sql: string; comments: CommentStatement[] } {
+  const comments: CommentStatement[] = [];
+  const masked = maskLiterals(sql, dialect);
+  let result = sql;
+
+  splitStatements(sql, dialect).forEach(([start, end]) => {
+    const offset = start + (masked.slice(start, end).match(/^\s*/)?.[0].length ?? 0);
+    const match = masked.slice(offset, end).match(/^(COMMENT\s+ON\s+)([\s\S]+?)(\s+IS\s+)('[^']*'|NULL)\s*;?\s*$/i);
+    if (!match) return;
+
+    // The target and value are read from the script, the masked copy has their quoted parts blanked
+    const [, prefix, maskedTarget, separator, maskedValue] = match;
+    const targetStart = offset + prefix.length;
+    const valueStart = targetStart + maskedTarget.length + separator.length;
+    const target = sql.slice(targetStart, targetStart + maskedTarget.length);
+    const value = sql.slice(valueStart, valueStart + maskedValue.length);
+
+    const targetMatch = target.match(/^(TABLE|COLUMN)\s+([\s\S]+)$/i);
+    if (targetMatch) {
+      comments.push({
+        kind: targetMatch[1].toUpperCase(),
+        name: splitQualifiedName(targetMatch[2]),
+        text: value.toUpperCase() === 'NULL' ? null : value.slice(1, -1).replace(/''/g, "'"),
+        offset
+      });
+    }
+    result = result.slice(0, offset) + result.slice(offset, end).replace(/[^\n]/g, ' ') + result.slice(end);
+  });
+
+  return { sql: result, comments };
 }
 
-export interface Relationship {
-  from: { table: string; column: string };
-  to: { table: string; column: string };
-  type: 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+// pg_dump names the sequence of identity columns with a SEQUENCE NAME option the parser doesn't
+// support, it's blanked out and the name kept by the option's offset
+function extractIdentitySequenceNames(sql: string, sequences: Map<number, string>): string {
+  const masked = maskLiterals(sql, 'postgresql');
+  const optionRegex = /\bSEQUENCE\s+NAME\s+((?:"[^"]*"|[\w$]+)(?:\s*\.\s*(?:"[^"]*"|[\w$]+))*)/gi;
+  let result = sql;
+  let match;
+
+  while ((match = optionRegex.exec(masked)) !== null) {
+    const start = match.index;
+    const end = start + match[0].length;
+    sequences.set(start, splitQualifiedName(sql.slice(end - match[1].length, end)).join('.'));
+    result = result.slice(0, start) + sql.slice(start, end).replace(/[^\n]/g, ' ') + result.slice(end);
+  }
+
+  return result;
 }
 
-export interface SQLError {
-  message: string;
-  line: number;
-  column: number;
-  endLine?: number;
-  endColumn?: number;
-  severity: 'error' | 'warning';
+// Split a possibly quoted dotted name like public."Order Items".id into its parts
+function splitQualifiedName(name: string): string[] {
+  return Array.from(name.matchAll(/"((?:[^"]|"")*)"|([^\s."]+)/g))
+    .map(match => match[1] !== undefined ? match[1].replace(/""/g, '"') : match[2]);
 }
 
-export interface SQLParseResult {
-  diagram: SQLDiagram;
-  errors: SQLError[];
-  isValid: boolean;
+// The schema and name at the end of a split qualified name like ['db', 'public', 'users']
+function toEntityRef(parts: string[]): EntityRef {
+  return parts.length > 1
+    ? { schema: parts[parts.length - 2], name: parts[parts.length - 1] }
+    : { name: parts[0] };
 }
 
-export interface SQLDiagram {
-  tables: Table[];
-  relationships: Relationship[];
+// Set the description of the table or column a COMMENT ON statement targets
+function applyCommentStatement(comment: CommentStatement, context: ParseContext) {
+  const parts = comment.kind === 'COLUMN' ? comment.name.slice(0, -1) : comment.name;
+  const table = findRelation(context.tables, toEntityRef(parts), context.searchPath);
+  if (!table) return;
+
+  const description = comment.text ?? undefined;
+  if (comment.kind === 'TABLE') {
+    table.description = description;
+    return;
+  }
+
+  const column = table.columns.find(col => col.name === comment.name[comment.name.length - 1]);
+  if (column) {
+    column.description = description;
+  }
 }
 
-export function parseSQLToDiagram(sqlCode: string): SQLParseResult {
-  const tables: Table[] = [];
-  const relationships: Relationship[] = [];
-  const errors: SQLError[] = [];
+// Gather the comments the parser attached to nodes as leading/trailing trivia
+function collectComments(ast: unknown): SourceComment[] {
+  const comments = new Map<number, SourceComment>();
+
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+    } else if (node && typeof node === 'object') {
+      const nodeObj = node as Record<string, unknown>;
+      [nodeObj.leading, nodeObj.trailing].forEach(trivia => {
+        ((trivia || []) as Record<string, unknown>[])
+          .filter(item => item.type === 'line_comment' || item.type === 'block_comment')
+          .forEach(item => {
+            const range = item.range as [number, number];
+            comments.set(range[0], { text: item.text as string, range });
+          });
+      });
+      Object.entries(nodeObj)
+        .filter(([key]) => key !== 'leading' && key !== 'trailing')
+        .forEach(([, child]) => visit(child));
+    }
+  };
 
-  if (!sqlCode.trim()) {
-    return {
-      diagram: { tables, relationships },
-      errors: [],
-      isValid: true
-    };
+  // Sorted once the whole tree is walked, comments are collected out of order
+  visit(ast);
+  return Array.from(comments.values()).sort((a, b) => a.range[0] - b.range[0]);
+}
+
+// The text of a comment without its -- or /* */ markers
+function getCommentText(comment: SourceComment): string {
+  return comment.text.replace(/^--|^\/\*|\*\/$/g, '').trim();
+}
+
+// Description from a comment after the column on the same line, or from whole-line comments right above it
+function getColumnComment(col: Record<string, unknown>, context: ParseContext): string | undefined {
+  const range = col.range as [number, number] | undefined;
+  if (!range) return undefined;
+  const { sql, comments } = context;
+
+  const trailing = comments.find(comment =>
+    comment.range[0] >= range[1] && /^[ \t,;]*$/.test(sql.slice(range[1], comment.range[0]))
+  );
+  if (trailing) return getCommentText(trailing) || undefined;
+
+  const leading: string[] = [];
+  let cursor = range[0];
+  for (let i = comments.length - 1; i >= 0; i--) {
+    const comment = comments[i];
+    if (comment.range[1] > cursor) continue;
+
+    // Stop at code between the comment and the column, or a comment that trails another line
+    const lineStart = sql.lastIndexOf('\n', comment.range[0] - 1) + 1;
+    if (sql.slice(comment.range[1], cursor).trim() || sql.slice(lineStart, comment.range[0]).trim()) break;
+
+    leading.unshift(getCommentText(comment));
+    cursor = lineStart;
   }
 
-  try {
-    const ast = parse(sqlCode, {
-      dialect: 'postgresql',
-      includeRange: true,
-      includeComments: true
-    });
+  return leading.join(' ').trim() || undefined;
+}
+
+// The SQL text a node was parsed from
+function getSourceText(node: unknown, context: ParseContext): string {
+  const range = (node as Record<string, unknown>)?.range as [number, number] | undefined;
+  return range ? context.sql.slice(range[0], range[1]) : '';
+}
 
-    // Extract CREATE TABLE statements
-    const statements = Array.isArray(ast.statements) ? ast.statements : [ast.statements];
+// Strip the optional `CONSTRAINT name` wrapper around column and table constraints
+function unwrapConstraint(constraint: Record<string, unknown>): Record<string, unknown> {
+  if (constraint.type === 'constraint' && constraint.constraint) {
+    return constraint.constraint as Record<string, unknown>;
+  }
+  return constraint;
+}
 
-    statements.forEach((statement: unknown) => {
-      if ((statement as Record<string, unknown>)?.type === 'create_table_stmt') {
-        const table = parseCreateTable(statement as Record<string, unknown>);
-        if (table) {
-          tables.push(table);
-        }
+// Read the name from a `CONSTRAINT name` wrapper, if there is one
+function getConstraintName(constraint: Record<string, unknown>): string | undefined {
+  if (constraint.type !== 'constraint') return undefined;
+
+  const nameObj = (constraint.name as Record<string, unknown>)?.name as Record<string, unknown>;
+  return (nameObj?.name || nameObj?.text) as string | undefined;
+}
+
+// Read the identifier names out of a parenthesized column list like (a, b)
+function getColumnNames(columnsObj: unknown): string[] {
+  const expr = (columnsObj as Record<string, unknown>)?.expr as Record<string, unknown>;
+  const items = expr?.items as unknown[];
+  if (!items) return [];
+
+  return items
+    .map((item: unknown) => {
+      let itemObj = item as Record<string, unknown>;
+      // PRIMARY KEY columns are wrapped in index specifications
+      if (itemObj?.type === 'index_specification') {
+        itemObj = itemObj.expr as Record<string, unknown>;
       }
-    });
+      return (itemObj?.name || itemObj?.text) as string;
+    })
+    .filter(Boolean);
+}
 
-    // Extract relationships from foreign keys
-    tables.forEach(table => {
-      table.columns.forEach(column => {
-        if (column.foreignKey) {
-          const referencedTable = tables.find(t => t.name === column.foreignKey!.table);
-          if (referencedTable) {
-            const relationshipType = determineRelationshipType(
-              table,
-              column.name,
-              referencedTable,
-              column.foreignKey.column
-            );
-
-            relationships.push({
-              from: { table: table.name, column: column.name },
-              to: { table: column.foreignKey.table, column: column.foreignKey.column },
-              type: relationshipType
-            });
-          }
-        }
-      });
-    });
+// Read the target of a REFERENCES table(columns) clause
+function parseReferences(references: Record<string, unknown>): ForeignKey['references'] | null {
+  const tableRef = getEntityRef(references?.table);
+  if (!tableRef) return null;
 
-    // Update relationship types based on actual table structure
-    relationships.forEach(relationship => {
-      const fromTable = tables.find(table => table.name === relationship.from.table);
-      const toTable = tables.find(table => table.name === relationship.to.table);
+  return {
+    schema: tableRef.schema,
+    table: tableRef.name,
+    columns: getColumnNames(references.columns)
+  };
+}
 
-      if (fromTable && toTable) {
-        relationship.type = determineRelationshipType(
-          fromTable,
-          relationship.from.column,
-          toTable,
-          relationship.to.column
-        );
+// The words of a keyword or list of keywords like `SET NULL`, as upper case text
+function getKeywordText(keywords: unknown): string {
+  return ([] as Record<string, unknown>[])
+    .concat((keywords ?? []) as Record<string, unknown> | Record<string, unknown>[])
+    .map(keyword => keyword.name)
+    .join(' ');
+}
+
+// Read the ON DELETE/ON UPDATE actions and MATCH type of a REFERENCES clause
+function parseReferentialOptions(references: Record<string, unknown>): ReferentialOptions {
+  const options: ReferentialOptions = {};
+
+  ((references?.options || []) as Record<string, unknown>[]).forEach(option => {
+    if (option.type === 'referential_action') {
+      // SET NULL and NO ACTION come as a list of keywords
+      const action = getKeywordText(option.actionKw) as ReferentialAction;
+      const event = (option.eventKw as Record<string, unknown>)?.name;
+
+      if (event === 'DELETE') options.onDelete = action;
+      if (event === 'UPDATE') options.onUpdate = action;
+    }
+    if (option.type === 'referential_match') {
+      options.match = (option.typeKw as Record<string, unknown>)?.name as ReferentialOptions['match'];
+    }
+  });
+
+  return options;
+}
+
+// Read [NOT] DEFERRABLE and INITIALLY DEFERRED/IMMEDIATE following a constraint
+function parseConstraintModifiers(modifiers: unknown): Pick<ReferentialOptions, 'deferrable' | 'initiallyDeferred'> {
+  const options: Pick<ReferentialOptions, 'deferrable' | 'initiallyDeferred'> = {};
+
+  ((modifiers || []) as Record<string, unknown>[]).forEach(modifier => {
+    const text = getKeywordText(modifier.kw);
+
+    if (text === 'DEFERRABLE') options.deferrable = true;
+    if (text === 'NOT DEFERRABLE') options.deferrable = false;
+    if (text === 'INITIALLY DEFERRED') {
+      // Only deferrable constraints can start deferred
+      options.deferrable = true;
+      options.initiallyDeferred = true;
+    }
+    if (text === 'INITIALLY IMMEDIATE') options.initiallyDeferred = false;
+  });
+
+  return options;
+}
+
+// Apply a table-level constraint to the already parsed columns of the table
+function applyTableConstraint(
+  table: Table,
+  constraint: Record<string, unknown>,
+  context: ParseContext,
+  name?: string,
+  modifiers?: unknown
+) {
+  if (constraint.type === 'constraint_primary_key') {
+    getColumnNames(constraint.columns).forEach(columnName => {
+      const column = table.columns.find(col => col.name === columnName);
+      if (column) {
+        column.primaryKey = true;
+        column.nullable = false;
       }
     });
+    table.primaryKeyName = name;
+  }
 
-  } catch (error) {
-    console.warn('SQL parsing error:', error);
+  if (constraint.type === 'constraint_foreign_key') {
+    const references = parseReferences(constraint.references as Record<string, unknown>);
+    if (!references) return;
 
-    // Extract error information from sql-parser-cst errors
-    const sqlError = error as {
-      message?: string;
-    };
+    const localColumns = getColumnNames(constraint.columns);
+    table.foreignKeys.push({
+      name,
+      columns: localColumns,
+      references,
+      ...parseReferentialOptions(constraint.references as Record<string, unknown>),
+      ...parseConstraintModifiers(modifiers),
+      range: (constraint.references as Record<string, unknown>).range as SourceRange | undefined
+    });
+  }
 
-    const message = sqlError.message || 'SQL parsing failed';
-    const { line, column, cleanMessage } = parseErrorLocation(message);
+  // MySQL's inline key names were blanked out before parsing
+  const range = constraint.range as SourceRange | undefined;
+  const mysqlKey = range && context.mysqlExtensions.keys.get(range[0]);
 
-    errors.push({
-      message: cleanMessage,
-      line,
-      column,
-      severity: 'error'
+  if (constraint.type === 'constraint_unique') {
+    table.uniqueKeys.push({
+      name: name ?? mysqlKey?.name,
+      columns: getColumnNames(constraint.columns),
+      range
     });
+    updateUniqueColumns(table);
   }
 
-  return {
-    diagram: { tables, relationships },
-    errors,
-    isValid: errors.length === 0
-  };
-}
+  // MySQL's inline `KEY (...)` / `INDEX (...)`
+  if (constraint.type === 'constraint_index') {
+    const indexType = (constraint.indexTypeKw as Record<string, unknown>)?.name as string | undefined;
+    table.indexes.push({
+      name: name ?? mysqlKey?.name,
+      columns: getColumnNames(constraint.columns),
+      unique: false,
+      method: indexType?.toLowerCase() ?? mysqlKey?.method ?? 'btree',
+      range
+    });
+  }
 
-function parseCreateTable(statement: Record<string, unknown>): Table | null {
-  try {
-    const nameObj = statement.name as Record<string, unknown>;
-    const tableName = nameObj?.name || nameObj?.text;
-    if (!tableName) return null;
+  // Table-level checks are listed on every column they mention
+  if (constraint.type === 'constraint_check') {
+    const check = getCheckText(constraint, context);
+    const referencedColumns = collectIdentifierNames(constraint.expr);
 
-    const columns: TableColumn[] = [];
+    table.columns
+      .filter(column => referencedColumns.has(column.name))
+      .forEach(column => column.checks.push(check));
+  }
+}
 
-    // Handle the new AST structure where columns are in columns.expr.items
-    const columnsObj = statement.columns as Record<string, unknown>;
-    const expr = columnsObj?.expr as Record<string, unknown>;
-    const items = expr?.items as unknown[];
+// The condition of a CHECK (...) constraint, without its parentheses
+function getCheckText(constraint: Record<string, unknown>, context: ParseContext): string {
+  const parenExpr = constraint.expr as Record<string, unknown>;
+  return getSourceText(parenExpr?.expr ?? parenExpr, context);
+}
 
-    if (items) {
-      items.forEach((col: unknown) => {
-        const column = parseColumn(col as Record<string, unknown>);
-        if (column) {
-          columns.push(column);
-        }
-      });
+// Every plain identifier used in an expression, e.g. the column names in a CHECK
+function collectIdentifierNames(node: unknown, names = new Set<string>()): Set<string> {
+  if (Array.isArray(node)) {
+    node.forEach(child => collectIdentifierNames(child, names));
+  } else if (node && typeof node === 'object') {
+    const nodeObj = node as Record<string, unknown>;
+    if (nodeObj.type === 'identifier') {
+      names.add(nodeObj.name as string);
+    } else {
+      Object.values(nodeObj).forEach(child => collectIdentifierNames(child, names));
     }
+  }
+  return names;
+}
 
-    return {
-      name: tableName as string,
-      columns
-    };
-  } catch (error) {
-    console.warn('Error parsing table:', error);
-    return null;
+// Split a column's data type into its base name, length/precision params and array suffix
+function parseDataType(
+  dataType: unknown,
+  context: ParseContext
+): Pick<TableColumn, 'type' | 'typeParams' | 'isArray'> {
+  let dataTypeObj = dataType as Record<string, unknown>;
+  // SQLite lets columns leave out the type
+  if (!dataTypeObj) return { type: context.dialect === 'sqlite' ? '' : 'unknown', isArray: false };
+
+  let isArray = false;
+  while (dataTypeObj.type === 'array_data_type') {
+    isArray = true;
+    dataTypeObj = dataTypeObj.dataType as Record<string, unknown>;
+  }
+
+  // timestamp(3) with time zone keeps the zone in the name and the precision in the params
+  let suffix = '';
+  if (dataTypeObj.type === 'with_time_zone_data_type') {
+    suffix = ' ' + (dataTypeObj.withTimeZoneKw as Record<string, unknown>[])
+      .map(keyword => keyword.text)
+      .join(' ');
+    dataTypeObj = dataTypeObj.dataType as Record<string, unknown>;
+  }
+
+  // Multi-word types like `double precision` come as a list of keywords
+  const nameParts = ([] as Record<string, unknown>[]).concat(
+    (dataTypeObj.name ?? []) as Record<string, unknown> | Record<string, unknown>[]
+  );
+  const name = nameParts.map(part => part.text || part.name).join(' ');
+
+  const paramsExpr = (dataTypeObj.params as Record<string, unknown>)?.expr as Record<string, unknown>;
+  const params = ((paramsExpr?.items || []) as unknown[]).map(param => getSourceText(param, context));
+
+  return {
+    type: (name || dataTypeObj.type as string || 'unknown') + suffix,
+    typeParams: params.length > 0 ? params : undefined,
+    isArray
+  };
+}
+
+// A column definition and what its inline constraints add to the table, kept apart so they're only
+// applied once the column is accepted
+interface ParsedColumn {
+  column: TableColumn;
+  primaryKeyName?: string;
+  uniqueKeys: UniqueKey[];
+  foreignKeys: ForeignKey[];
+  // Type of a MySQL ENUM column
+  inlineEnum?: EnumType;
+}
+
+function applyColumnConstraints(table: Table, parsed: ParsedColumn) {
+  if (parsed.column.primaryKey) {
+    table.primaryKeyName = parsed.primaryKeyName;
   }
+  table.uniqueKeys.push(...parsed.uniqueKeys);
+  table.foreignKeys.push(...parsed.foreignKeys);
 }
 
-function parseColumn(col: Record<string, unknown>): TableColumn | null {
+function parseColumn(col: Record<string, unknown>, table: Table, context: ParseContext): ParsedColumn | null {
   try {
     const nameObj = col.name as Record<string, unknown>;
     const name = nameObj?.name || nameObj?.text;
     if (!name) return null;
 
     // Handle dataType which can be a complex object
-    const dataTypeObj = col.dataType as Record<string, unknown>;
-    let dataType = 'unknown';
+    const { type: baseType, typeParams, isArray } = parseDataType(col.dataType, context);
+    const range = col.range as SourceRange | undefined;
 
-    if (dataTypeObj) {
-      const typeNameObj = dataTypeObj.name as Record<string, unknown>;
-      dataType = (typeNameObj?.name || typeNameObj?.text || dataTypeObj.type) as string || 'unknown';
-    }
+    // MySQL's UNSIGNED/ZEROFILL were blanked out before parsing, put them back on the type
+    const typeModifiers = Array.from(context.mysqlExtensions.typeModifiers)
+      .filter(([offset]) => range && offset > range[0] &&
+        (offset < range[1] || !context.sql.slice(range[1], offset).replace(/\b(?:UNSIGNED|ZEROFILL)\b/gi, '').trim()))
+      .map(([, modifier]) => modifier);
+    const dataType = [baseType, ...typeModifiers].join(' ');
 
     let nullable = true;
     let primaryKey = false;
-    let foreignKey: { table: string; column: string } | undefined;
+    let unique = false;
+    let autoIncrement = false;
+    let defaultValue: string | undefined;
+    let identity: TableColumn['identity'];
+    let generated: TableColumn['generated'];
+    let sequence: string | undefined;
+    let description = getColumnComment(col, context);
+    let primaryKeyName: string | undefined;
+    const checks: string[] = [];
+    const uniqueKeys: UniqueKey[] = [];
+    const foreignKeys: ForeignKey[] = [];
 
     // Check constraints
     if (col.constraints) {
       (col.constraints as unknown[]).forEach((constraint: unknown) => {
-        const constraintObj = constraint as Record<string, unknown>;
+        const constraintObj = unwrapConstraint(constraint as Record<string, unknown>);
+        const constraintName = getConstraintName(constraint as Record<string, unknown>);
+        const constraintModifiers = (constraint as Record<string, unknown>).modifiers;
         const constraintType = constraintObj.type;
 
         if (constraintType === 'constraint_not_null') {
@@ -201,68 +2400,146 @@ function parseColumn(col: Record<string, unknown>): TableColumn | null {
         if (constraintType === 'constraint_primary_key') {
           primaryKey = true;
           nullable = false;
+          primaryKeyName = constraintName;
         }
-        if (constraintType === 'references_specification') {
-          // Handle REFERENCES table(column) syntax
-          const tableObj = constraintObj.table as Record<string, unknown>;
-          const table = tableObj?.name || tableObj?.text;
-
-          const columnsObj = constraintObj.columns as Record<string, unknown>;
-          const expr = columnsObj?.expr as Record<string, unknown>;
-          const items = expr?.items as unknown[];
-          const firstItem = items?.[0] as Record<string, unknown>;
-          const column = firstItem?.name || firstItem?.text || 'id';
-
-          if (table) {
-            foreignKey = {
-              table: table as string,
-              column: column as string
+        if (constraintType === 'constraint_unique') {
+          unique = true;
+          uniqueKeys.push({
+            name: constraintName,
+            columns: [name as string],
+            range: constraintObj.range as SourceRange | undefined
+          });
+        }
+        if (constraintType === 'constraint_default') {
+          defaultValue = getSourceText(constraintObj.expr, context);
+        }
+        if (constraintType === 'constraint_check') {
+          checks.push(getCheckText(constraintObj, context));
+        }
+        if (constraintType === 'constraint_auto_increment') {
+          autoIncrement = true;
+        }
+        if (constraintType === 'constraint_generated') {
+          const expr = constraintObj.expr as Record<string, unknown>;
+          if (expr?.type === 'identity_column') {
+            identity = getKeywordText(constraintObj.generatedKw).replace(/^GENERATED /, '') as TableColumn['identity'];
+            sequence = findIdentitySequence(constraintObj.range as SourceRange | undefined, context);
+            nullable = false;
+          } else {
+            const storage = (constraintObj.storageKw as Record<string, unknown>)?.name;
+            generated = {
+              expression: getSourceText(expr?.expr ?? expr, context),
+              storage: storage === 'STORED' ? 'STORED' : 'VIRTUAL'
             };
           }
         }
-        if (constraintType === 'constraint_foreign_key') {
-          // Handle separate FOREIGN KEY constraint syntax
-          const references = constraintObj.references as Record<string, unknown>;
+        if (constraintType === 'constraint_comment') {
+          description = (constraintObj.value as Record<string, unknown>)?.value as string;
+        }
+        if (constraintType === 'references_specification') {
+          // Handle REFERENCES table(column) syntax
+          const references = parseReferences(constraintObj);
           if (references) {
-            const tableObj = references.table as Record<string, unknown>;
-            const table = tableObj?.name || tableObj?.text;
-            const columnsArray = references.columns as unknown[];
-            const columnObj = columnsArray?.[0] as Record<string, unknown>;
-            const column = columnObj?.name || columnObj?.text || 'id';
-
-            if (table) {
-              foreignKey = {
-                table: table as string,
-                column: column as string
-              };
-            }
+            foreignKeys.push({
+              name: constraintName,
+              columns: [name as string],
+              references,
+              ...parseReferentialOptions(constraintObj),
+              ...parseConstraintModifiers(constraintModifiers),
+              range: constraintObj.range as SourceRange | undefined
+            });
           }
         }
       });
     }
 
-    return {
+    // Serial types are integers backed by a sequence named after the table and column
+    if (/^(?:small|big)?serial$|^serial[248]$/i.test(baseType)) {
+      sequence = `${table.name}_${name}_seq`;
+      nullable = false;
+    }
+    sequence ??= getNextvalSequence(defaultValue);
+
+    // MySQL enums are declared on the column, they get a type named after it to be drawn like PostgreSQL ones
+    let enumType: string | undefined;
+    let inlineEnum: EnumType | undefined;
+    if (isMySQLFamily(context.dialect) && baseType.toUpperCase() === 'ENUM') {
+      const paramsExpr = ((col.dataType as Record<string, unknown>)?.params as Record<string, unknown>)
+        ?.expr as Record<string, unknown>;
+      inlineEnum = {
+        name: `${table.name}_${name}`,
+        schema: table.schema,
+        values: ((paramsExpr?.items || []) as Record<string, unknown>[]).map(item => item.value as string),
+        range
+      };
+      enumType = getQualifiedName(inlineEnum.name, inlineEnum.schema);
+    }
+
+    const column: TableColumn = {
       name: name as string,
-      type: dataType as string,
+      type: dataType,
+      typeParams: enumType ? undefined : typeParams,
+      isArray,
       nullable,
       primaryKey,
-      foreignKey
+      unique,
+      // Identity, serial and nextval() columns are filled in like MySQL's AUTO_INCREMENT ones
+      autoIncrement: autoIncrement || !!identity || !!sequence,
+      default: defaultValue,
+      checks,
+      enumType,
+      description,
+      affinity: context.dialect === 'sqlite' ? getTypeAffinity(dataType) : undefined,
+      identity,
+      generated,
+      sequence,
+      range
     };
+    return { column, primaryKeyName, uniqueKeys, foreignKeys, inlineEnum };
   } catch (error) {
     console.warn('Error parsing column:', error);
     return null;
   }
 }
 
+const COMMON_TYPOS = [
+  { pattern: /CREATE\s+TABEL/gi, correction: 'CREATE TABLE' },
+  { pattern: /PRIMRY\s+KEY/gi, correction: 'PRIMARY KEY' },
+  { pattern: /REFRENCES/gi, correction: 'REFERENCES' },
+  { pattern: /FORIGN\s+KEY/gi, correction: 'FOREIGN KEY' }
+];
+
+// Misspelled keywords, with a fix that corrects them. Takes the script or a same-length masked copy of it.
+function findCommonTypos(sql: string): SQLError[] {
+  return COMMON_TYPOS.flatMap(({ pattern, correction }) => [...sql.matchAll(pattern)].map(match => {
+    const start = getPosition(sql, match.index);
+    const end = getPosition(sql, match.index + match[0].length);
+    return {
+      message: `Did you mean ${correction}?`,
+      line: start.line,
+      column: start.column,
+      endLine: end.line,
+      endColumn: end.column,
+      severity: 'warning' as const,
+      fixes: [{
+        title: `Change to ${correction}`,
+        edits: [{ range: [match.index, match.index + match[0].length] as SourceRange, text: correction }]
+      }]
+    };
+  }));
+}
+
 // Simple regex-based parser as fallback
 export function parseSimpleSQL(sqlCode: string): SQLParseResult {
   const tables: Table[] = [];
   const relationships: Relationship[] = [];
+  const enums: EnumType[] = [];
+  const views: View[] = [];
   const errors: SQLError[] = [];
 
   if (!sqlCode.trim()) {
     return {
-      diagram: { tables, relationships },
+      diagram: { tables, relationships, enums, views, domains: [], compositeTypes: [] },
       errors: [],
       isValid: true
     };
@@ -277,22 +2554,29 @@ export function parseSimpleSQL(sqlCode: string): SQLParseResult {
       const tableName = match[1];
       const columnsText = match[2];
 
-      const columns = parseSimpleColumns(columnsText);
+      const { columns, foreignKeys } = parseSimpleColumns(columnsText);
 
       tables.push({
         name: tableName,
-        columns
+        columns,
+        foreignKeys,
+        uniqueKeys: [],
+        indexes: [],
+        range: [match.index, match.index + match[0].length]
       });
 
       // Extract foreign key relationships
-      columns.forEach(column => {
-        if (column.foreignKey) {
-          relationships.push({
-            from: { table: tableName, column: column.name },
-            to: { table: column.foreignKey.table, column: column.foreignKey.column },
-            type: 'many-to-one' // Will be updated later
-          });
-        }
+      foreignKeys.forEach(foreignKey => {
+        relationships.push({
+          from: { table: tableName, columns: [...foreignKey.columns] },
+          to: { table: foreignKey.references.table, columns: [...foreignKey.references.columns] },
+          // Will be updated later
+          type: 'many-to-one',
+          fromMultiplicity: 'many',
+          toMultiplicity: 'exactly-one',
+          onDelete: foreignKey.onDelete,
+          onUpdate: foreignKey.onUpdate
+        });
       });
     }
 
@@ -309,44 +2593,15 @@ export function parseSimpleSQL(sqlCode: string): SQLParseResult {
       });
     }
 
-    // Check for common typos with better position detection
-    const commonTypos = [
-      { pattern: /CREATE\s+TABEL/gi, message: 'Did you mean CREATE TABLE?' },
-      { pattern: /PRIMRY\s+KEY/gi, message: 'Did you mean PRIMARY KEY?' },
-      { pattern: /REFRENCES/gi, message: 'Did you mean REFERENCES?' },
-      { pattern: /FORIGN\s+KEY/gi, message: 'Did you mean FOREIGN KEY?' }
-    ];
-
-    commonTypos.forEach(({ pattern, message }) => {
-      const match = pattern.exec(sqlCode);
-      if (match) {
-        // Find line and column of the match
-        const beforeMatch = sqlCode.substring(0, match.index);
-        const lines = beforeMatch.split('\n');
-        const line = lines.length;
-        const column = lines[lines.length - 1].length + 1;
-
-        errors.push({
-          message,
-          line,
-          column,
-          severity: 'warning'
-        });
-      }
-    });
+    errors.push(...findCommonTypos(sqlCode));
 
     // Update relationship types based on actual table structure
     relationships.forEach(relationship => {
-      const fromTable = tables.find(table => table.name === relationship.from.table);
-      const toTable = tables.find(table => table.name === relationship.to.table);
+      const fromTable = findRelation(tables, { schema: relationship.from.schema, name: relationship.from.table }, []);
+      const toTable = findRelation(tables, { schema: relationship.to.schema, name: relationship.to.table }, []);
 
       if (fromTable && toTable) {
-        relationship.type = determineRelationshipType(
-          fromTable,
-          relationship.from.column,
-          toTable,
-          relationship.to.column
-        );
+        Object.assign(relationship, determineCardinality(fromTable, relationship.from.columns));
       }
     });
 
@@ -362,14 +2617,15 @@ export function parseSimpleSQL(sqlCode: string): SQLParseResult {
   }
 
   return {
-    diagram: { tables, relationships },
+    diagram: { tables, relationships, enums, views, domains: [], compositeTypes: [] },
     errors,
-    isValid: errors.length === 0
+    isValid: errors.every(error => error.severity !== 'error')
   };
 }
 
-function parseSimpleColumns(columnsText: string): TableColumn[] {
+function parseSimpleColumns(columnsText: string): { columns: TableColumn[]; foreignKeys: ForeignKey[] } {
   const columns: TableColumn[] = [];
+  const foreignKeys: ForeignKey[] = [];
 
   // Split by comma but handle parentheses
   const columnStrings = columnsText.split(/,(?![^()]*\))/).map(s => s.trim());
@@ -386,11 +2642,11 @@ function parseSimpleColumns(columnsText: string): TableColumn[] {
     if (parts.length < 2) return;
 
     const name = parts[0];
-    const type = parts[1];
+    const typeMatch = parts[1].match(/^([^([]+)(?:\(([^)]*)\))?(\[\])?$/);
+    const type = typeMatch?.[1] ?? parts[1];
 
     let nullable = true;
     let primaryKey = false;
-    let foreignKey: { table: string; column: string } | undefined;
 
     const columnText = columnStr.toUpperCase();
 
@@ -406,22 +2662,35 @@ function parseSimpleColumns(columnsText: string): TableColumn[] {
     // Look for REFERENCES
     const referencesMatch = columnStr.match(/REFERENCES\s+(\w+)\s*\((\w+)\)/i);
     if (referencesMatch) {
-      foreignKey = {
-        table: referencesMatch[1],
-        column: referencesMatch[2]
-      };
+      const actionPattern = '(CASCADE|RESTRICT|SET\\s+NULL|SET\\s+DEFAULT|NO\\s+ACTION)';
+      const onDeleteMatch = columnStr.match(new RegExp(`ON\\s+DELETE\\s+${actionPattern}`, 'i'));
+      const onUpdateMatch = columnStr.match(new RegExp(`ON\\s+UPDATE\\s+${actionPattern}`, 'i'));
+
+      foreignKeys.push({
+        columns: [name],
+        references: {
+          table: referencesMatch[1],
+          columns: [referencesMatch[2]]
+        },
+        onDelete: onDeleteMatch?.[1].toUpperCase().replace(/\s+/, ' ') as ReferentialAction | undefined,
+        onUpdate: onUpdateMatch?.[1].toUpperCase().replace(/\s+/, ' ') as ReferentialAction | undefined
+      });
     }
 
     columns.push({
       name,
       type,
+      typeParams: typeMatch?.[2]?.split(',').map(param => param.trim()),
+      isArray: Boolean(typeMatch?.[3]),
       nullable,
       primaryKey,
-      foreignKey
+      unique: columnText.includes('UNIQUE'),
+      autoIncrement: /AUTO_?INCREMENT|SERIAL|\bIDENTITY\b/.test(columnText),
+      checks: []
     });
   });
 
-  return columns;
+  return { columns, foreignKeys };
 }
 
 // Utility function to parse error location from sql-parser-cst error messages
@@ -447,38 +2716,87 @@ function parseErrorLocation(errorMessage: string): { line: number; column: numbe
   return { line, column, cleanMessage };
 }
 
-// Determine relationship type based on foreign key constraints
-function determineRelationshipType(
-  fromTable: Table,
-  fromColumn: string,
-  toTable: Table,
-  toColumn: string
-): 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many' {
-  // Find the foreign key column in the source table
-  const fkColumn = fromTable.columns.find(col => col.name === fromColumn);
-
-  // Find the referenced column in the target table
-  const referencedColumn = toTable.columns.find(col => col.name === toColumn);
+// Cardinality of a foreign key relationship, and whether the referencing side may leave it empty
+function determineCardinality(fromTable: Table, fromColumns: string[]): RelationshipCardinality {
+  // A foreign key that is left empty doesn't point at any row
+  const toMultiplicity = fromColumns.some(name => fromTable.columns.find(column => column.name === name)?.nullable)
+    ? 'zero-or-one'
+    : 'exactly-one';
 
-  // If the foreign key column is a primary key or unique, it's likely one-to-one
-  if (fkColumn?.primaryKey) {
-    return 'one-to-one';
+  // Unique foreign key columns, like a primary key that is also a foreign key, allow one row per referenced row
+  if (isUniqueColumnSet(fromTable, fromColumns)) {
+    return { type: 'one-to-one', fromMultiplicity: 'zero-or-one', toMultiplicity };
   }
 
-  // If the referenced column is a primary key (which is typical), it's many-to-one
-  if (referencedColumn?.primaryKey) {
-    // Check if this is a junction table (many-to-many scenario)
-    // A junction table typically has only foreign keys as columns and a composite primary key
-    const isJunctionTable = fromTable.columns.every(col => col.foreignKey || col.primaryKey) &&
-      fromTable.columns.filter(col => col.foreignKey).length >= 2;
+  // A junction table's primary or a unique key is made of two or more foreign keys, any other columns
+  // describe the link (like an enrollment's grade). A table with a surrogate id and two foreign keys
+  // is just a child of both.
+  const keys = [
+    fromTable.columns.filter(column => column.primaryKey).map(column => column.name),
+    ...fromTable.uniqueKeys.map(uniqueKey => uniqueKey.columns)
+  ];
+  const isJunctionTable = keys.some(key =>
+    key.length > 0 &&
+    key.every(name => isForeignKeyColumn(fromTable, name)) &&
+    fromTable.foreignKeys.filter(foreignKey => foreignKey.columns.every(name => key.includes(name))).length >= 2
+  );
+
+  return { type: isJunctionTable ? 'many-to-many' : 'many-to-one', fromMultiplicity: 'many', toMultiplicity };
+}
 
-    if (isJunctionTable) {
-      return 'many-to-many';
-    }
+// Unique id for a table across schemas, e.g. `billing.invoices`
+export function getQualifiedName(name: string, schema?: string): string {
+  return schema ? `${schema}.${name}` : name;
+}
 
-    return 'many-to-one';
-  }
+// Words that can't be used as names without quotes in any of the dialects
+const RESERVED_WORDS = new Set([
+  'all', 'and', 'as', 'asc', 'check', 'column', 'constraint', 'create', 'default', 'desc', 'distinct',
+  'end', 'foreign', 'from', 'grant', 'group', 'in', 'index', 'is', 'key', 'limit', 'not', 'null', 'on',
+  'or', 'order', 'primary', 'references', 'select', 'table', 'to', 'union', 'unique', 'user', 'where'
+]);
+
+// A name as it has to be written in SQL: quoted when it isn't a plain lower case word, since
+// PostgreSQL folds unquoted names to lower case
+export function quoteIdentifier(name: string, dialect: SQLDialect): string {
+  if (/^[a-z_][a-z0-9_]*$/.test(name) && !RESERVED_WORDS.has(name)) return name;
+  return isMySQLFamily(dialect) ? `\`${name.replace(/`/g, '``')}\`` : `"${name.replace(/"/g, '""')}"`;
+}
+
+export function quoteQualifiedName(name: string, schema: string | undefined, dialect: SQLDialect): string {
+  return schema ? `${quoteIdentifier(schema, dialect)}.${quoteIdentifier(name, dialect)}` : quoteIdentifier(name, dialect);
+}
+
+// Display form of a column type, e.g. `varchar(50)` or `text[]`
+export function formatColumnType(column: DataType): string {
+  const params = column.typeParams ? `(${column.typeParams.join(', ')})` : '';
+  // Precision goes before the zone suffix and MySQL's modifiers: timestamp(3) with time zone, decimal(10, 2) unsigned
+  const [, baseType, suffix = ''] = column.type.match(/^(.*?)((?: with(?:out)? time zone| unsigned| zerofill)*)$/i) ?? [];
+  return `${baseType}${params}${suffix}${column.isArray ? '[]' : ''}`;
+}
+
+// Whether the column is covered by any of the table's indexes
+export function isIndexedColumn(table: Table, columnName: string): boolean {
+  return table.indexes.some(index => index.columns.includes(columnName));
+}
+
+// Whether the column takes part in any of the table's foreign keys
+export function isForeignKeyColumn(table: Table, columnName: string): boolean {
+  return table.foreignKeys.some(foreignKey => foreignKey.columns.includes(columnName));
+}
+
+// Guess the dialect of a script from the syntax it uses, or null when nothing gives it away
+export function detectDialect(sqlCode: string): SQLDialect | null {
+  // Backticks are MySQL syntax, so they're left visible while strings and comments are masked
+  const masked = maskLiterals(sqlCode, 'postgresql');
+  const scores = new Map<SQLDialect, number>();
+
+  DIALECT_HINTS.forEach(({ dialect, pattern }) => {
+    const count = masked.match(pattern)?.length ?? 0;
+    scores.set(dialect, (scores.get(dialect) ?? 0) + count);
+  });
 
-  // Default to many-to-one if we can't determine otherwise
-  return 'many-to-one';
+  const [best, runnerUp] = Array.from(scores).sort((a, b) => b[1] - a[1]);
+  if (!best || best[1] === 0 || best[1] === runnerUp?.[1]) return null;
+  return best[0];
 }